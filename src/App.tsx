@@ -6,6 +6,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/auth-context";
 import { ProjectProvider } from "@/features/projects/project-context";
+import { RoleProvider } from "@/features/roles/role-context";
+import { OrganizationProvider } from "@/features/organizations/organization-context";
+import { TagProvider } from "@/features/tags/tag-context";
 import { useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -21,6 +24,12 @@ import Projects from "@/pages/Projects";
 import ProjectDetail from "@/pages/ProjectDetail";
 import ProjectForm from "@/pages/ProjectForm";
 import Users from "@/pages/Users";
+import Roles from "@/pages/Roles";
+import Organization from "@/pages/Organization";
+import Audit from "@/pages/Audit";
+import Trash from "@/pages/Trash";
+import Recovery from "@/pages/Recovery";
+import Profile from "@/pages/Profile";
 import NotFound from "@/pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -70,34 +79,46 @@ const App = () => {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <ProjectProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                {/* Auth routes */}
-                <Route element={<AuthLayout />}>
-                  <Route path="/login" element={<Login />} />
-                  <Route path="/signup" element={<Signup />} />
-                </Route>
-                
-                {/* Protected routes */}
-                <Route element={<AppLayout />}>
-                  <Route path="/" element={<Dashboard />} />
-                  <Route path="/projects" element={<Projects />} />
-                  <Route path="/projects/new" element={<ProjectForm />} />
-                  <Route path="/projects/:id" element={<ProjectDetail />} />
-                  <Route path="/projects/:id/edit" element={<ProjectForm />} />
-                  <Route path="/users" element={<Users />} />
-                </Route>
-                
-                {/* Catch-all route */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
-        </ProjectProvider>
+        <RoleProvider>
+          <OrganizationProvider>
+            <TagProvider>
+              <ProjectProvider>
+                <TooltipProvider>
+                  <Toaster />
+                  <Sonner />
+                  <BrowserRouter>
+                    <Routes>
+                      {/* Auth routes */}
+                      <Route element={<AuthLayout />}>
+                        <Route path="/login" element={<Login />} />
+                        <Route path="/signup" element={<Signup />} />
+                      </Route>
+                  
+                      {/* Protected routes */}
+                      <Route element={<AppLayout />}>
+                        <Route path="/" element={<Dashboard />} />
+                        <Route path="/projects" element={<Projects />} />
+                        <Route path="/projects/new" element={<ProjectForm />} />
+                        <Route path="/projects/:id" element={<ProjectDetail />} />
+                        <Route path="/projects/:id/edit" element={<ProjectForm />} />
+                        <Route path="/users" element={<Users />} />
+                        <Route path="/roles" element={<Roles />} />
+                        <Route path="/organization" element={<Organization />} />
+                        <Route path="/audit" element={<Audit />} />
+                        <Route path="/trash" element={<Trash />} />
+                        <Route path="/recovery" element={<Recovery />} />
+                        <Route path="/profile" element={<Profile />} />
+                      </Route>
+                  
+                      {/* Catch-all route */}
+                      <Route path="*" element={<NotFound />} />
+                    </Routes>
+                  </BrowserRouter>
+                </TooltipProvider>
+              </ProjectProvider>
+            </TagProvider>
+          </OrganizationProvider>
+        </RoleProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -3,6 +3,7 @@ import React, { useEffect, useState } from "react";
 import { Outlet, Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/auth-context";
 import Navbar from "./Navbar";
+import ImpersonationBanner from "./ImpersonationBanner";
 import { Loader2, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
@@ -84,6 +85,7 @@ const AppLayout: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-background">
+      <ImpersonationBanner />
       <Navbar />
       <main className="container mx-auto px-4 py-8 animate-fade-in">
         <Outlet />
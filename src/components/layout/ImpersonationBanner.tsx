@@ -0,0 +1,46 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/auth-context";
+import { getEffectiveRole } from "@/types/auth";
+import { Button } from "@/components/ui/button";
+import { Eye, Loader2, LogOut } from "lucide-react";
+
+// Shown on every page while an administrator views the app as another user
+const ImpersonationBanner: React.FC = () => {
+  const { user, impersonation, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [isStopping, setIsStopping] = useState(false);
+
+  if (!impersonation || !user) return null;
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonation();
+      navigate("/users");
+    } catch (error) {
+      // The auth context already reported the error
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-amber-300 bg-amber-100 text-amber-900 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-200">
+      <div className="container mx-auto flex flex-wrap items-center gap-x-4 gap-y-2 px-4 py-2 text-sm">
+        <Eye className="h-4 w-4 shrink-0" />
+        <p className="mr-auto">
+          Viewing as <span className="font-semibold">{impersonation.targetName}</span> ({getEffectiveRole(user)}).
+          {" "}Read-only: changes are disabled. Data is loaded with your own access.
+          {" "}Ends at {new Date(impersonation.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.
+        </p>
+        <Button size="sm" variant="outline" className="border-amber-400 bg-transparent" onClick={handleStop} disabled={isStopping}>
+          {isStopping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+          Exit
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -2,13 +2,23 @@
 import React from "react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/auth-context";
+import { getEffectiveRole } from "@/types/auth";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { LogOut, Users, FileText } from "lucide-react";
+import { LogOut, Users, FileText, KeyRound, ScrollText, Trash2 } from "lucide-react";
+import { useCan } from "@/features/permissions/use-can";
+import { useRoleRequestNotifications } from "@/features/role-requests/use-role-request-notifications";
+import OrganizationSwitcher from "./OrganizationSwitcher";
+import CommandPalette from "@/components/search/CommandPalette";
 
 const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
   const location = useLocation();
+  const canListUsers = useCan("user:list");
+  const canManageRoles = useCan("role:manage");
+  const canViewAudit = useCan("audit:view");
+  const canViewTrash = useCan("project:restore");
+  useRoleRequestNotifications();
 
   const isActive = (path: string) => {
     return location.pathname === path;
@@ -22,8 +32,16 @@ const Navbar: React.FC = () => {
     },
   ];
 
-  // Only show the Users management for Admins
-  if (user?.role === "Admin") {
+  if (canViewTrash) {
+    navItems.push({
+      title: "Trash",
+      path: "/trash",
+      icon: <Trash2 className="h-4 w-4 mr-2" />,
+    });
+  }
+
+  // Only show the Users management to roles that can manage users
+  if (canListUsers) {
     navItems.push({
       title: "Users",
       path: "/users",
@@ -31,6 +49,22 @@ const Navbar: React.FC = () => {
     });
   }
 
+  if (canManageRoles) {
+    navItems.push({
+      title: "Roles",
+      path: "/roles",
+      icon: <KeyRound className="h-4 w-4 mr-2" />,
+    });
+  }
+
+  if (canViewAudit) {
+    navItems.push({
+      title: "Audit",
+      path: "/audit",
+      icon: <ScrollText className="h-4 w-4 mr-2" />,
+    });
+  }
+
   return (
     <header className="sticky top-0 z-10 w-full backdrop-blur-lg bg-background/80 border-b border-border">
       <div className="container mx-auto px-4">
@@ -42,6 +76,7 @@ const Navbar: React.FC = () => {
             >
               Role Manager
             </Link>
+            <OrganizationSwitcher />
             <nav className="hidden md:flex items-center space-x-1">
               {navItems.map((item) => (
                 <Link
@@ -61,15 +96,25 @@ const Navbar: React.FC = () => {
             </nav>
           </div>
           <div className="flex items-center gap-4">
+            <CommandPalette />
             <div className="hidden md:block">
               <div className="flex items-center gap-2">
-                <div className="text-sm">
+                <Link to="/profile" className="text-sm hover:underline">
                   <span className="text-muted-foreground">Signed in as </span>
                   <span className="font-semibold">{user?.name}</span>
-                </div>
-                <div className="inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold">
-                  {user?.role}
-                </div>
+                </Link>
+                {user?.temporaryRole ? (
+                  <div
+                    className="inline-flex items-center rounded-full border border-amber-500 bg-amber-500/10 px-2.5 py-0.5 text-xs font-semibold"
+                    title={`Temporary role; your own role is ${user.role}`}
+                  >
+                    {getEffectiveRole(user)} until {new Date(user.temporaryRole.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </div>
+                ) : (
+                  <div className="inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold">
+                    {user?.role}
+                  </div>
+                )}
               </div>
             </div>
             <Button
@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Building2, Check, ChevronsUpDown, Plus, Settings } from "lucide-react";
+
+const OrganizationSwitcher: React.FC = () => {
+  const { organizations, activeOrganization, switchOrganization, createOrganization } = useOrganizations();
+  const navigate = useNavigate();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSwitch = (id: string) => {
+    switchOrganization(id);
+    navigate("/projects");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      await createOrganization(name.trim());
+      setDialogOpen(false);
+      setName("");
+      navigate("/projects");
+    } catch (error) {
+      // The organization context already reported the error
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 max-w-[200px]">
+            <Building2 className="h-4 w-4 shrink-0" />
+            <span className="truncate">{activeOrganization?.name ?? "No organization"}</span>
+            <ChevronsUpDown className="h-3 w-3 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Organizations</DropdownMenuLabel>
+          {organizations.map((org) => (
+            <DropdownMenuItem key={org.id} onSelect={() => handleSwitch(org.id)}>
+              <Check className={`h-4 w-4 mr-2 ${org.id === activeOrganization?.id ? "opacity-100" : "opacity-0"}`} />
+              <span className="truncate">{org.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {activeOrganization && (
+            <DropdownMenuItem onSelect={() => navigate("/organization")}>
+              <Settings className="h-4 w-4 mr-2" />
+              Organization settings
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New organization
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Create organization</DialogTitle>
+              <DialogDescription>
+                You will become the owner of the new organization.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Acme Inc."
+                required
+                disabled={isCreating}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={isCreating}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || !name.trim()}>
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default OrganizationSwitcher;
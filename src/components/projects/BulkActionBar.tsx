@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { useProjects } from "@/features/projects/project-context";
+import { downloadFile, toCsv } from "@/lib/export";
+import { BulkActionResult, partitionByPermission, Project } from "@/types/project";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ArrowRightLeft, Download, Tags, Trash, X } from "lucide-react";
+import TransferOwnershipDialog, { OwnerCandidate } from "./TransferOwnershipDialog";
+import SkippedProjectsNotice from "./SkippedProjectsNotice";
+import BulkTagDialog from "./BulkTagDialog";
+
+const EXPORT_COLUMNS: (keyof Project)[] = ["id", "title", "content", "createdBy", "createdAt", "updatedAt"];
+
+const toExportRow = (project: Project) => {
+  return Object.fromEntries(EXPORT_COLUMNS.map(column => [column, project[column]]));
+};
+
+interface BulkActionBarProps {
+  selected: Project[];
+  ownerCandidates: OwnerCandidate[];
+  onClear: () => void;
+  onDeleted: (result: BulkActionResult) => void;
+  onTagged: (result: BulkActionResult) => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selected, ownerCandidates, onClear, onDeleted, onTagged }) => {
+  const { user } = useAuth();
+  const { deleteProjects, transferProjectOwnership } = useProjects();
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [tagOpen, setTagOpen] = useState(false);
+
+  // Every action only touches the projects the user has permission for. Memoized
+  // because the transfer dialog resets its form whenever its projects change.
+  const deletable = useMemo(() => partitionByPermission(selected, user, "canDelete"), [selected, user]);
+  const transferable = useMemo(() => partitionByPermission(selected, user, "canTransfer"), [selected, user]);
+  const taggable = useMemo(() => partitionByPermission(selected, user, "canTag"), [selected, user]);
+  const exportable = useMemo(() => partitionByPermission(selected, user, "canView"), [selected, user]);
+
+  const handleDelete = async () => {
+    const result = await deleteProjects(deletable.allowed);
+    onDeleted(result);
+  };
+
+  const handleTransfer = async (projects: Project[], newOwnerId: string) => {
+    await transferProjectOwnership(projects, newOwnerId);
+    onClear();
+  };
+
+  const handleExport = (format: "csv" | "json") => {
+    const filename = `projects-${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === "csv") {
+      downloadFile(toCsv(exportable.allowed, EXPORT_COLUMNS), filename, "text/csv");
+    } else {
+      downloadFile(JSON.stringify(exportable.allowed.map(toExportRow), null, 2), filename, "application/json");
+    }
+
+    if (exportable.skipped.length > 0) {
+      toast.warning(`Skipped ${exportable.skipped.length} project${exportable.skipped.length === 1 ? "" : "s"} you don't have permission to view`);
+    }
+  };
+
+  return (
+    <div className="sticky top-16 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-background p-3 shadow-sm">
+      <p className="text-sm font-medium mr-auto">
+        {selected.length} selected
+      </p>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setTransferOpen(true)}
+        disabled={transferable.allowed.length === 0}
+      >
+        <ArrowRightLeft className="h-4 w-4 mr-2" />
+        Transfer
+      </Button>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setTagOpen(true)}
+        disabled={taggable.allowed.length === 0}
+      >
+        <Tags className="h-4 w-4 mr-2" />
+        Tag
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={exportable.allowed.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("json")}>JSON</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="destructive"
+        size="sm"
+        onClick={() => setDeleteOpen(true)}
+        disabled={deletable.allowed.length === 0}
+      >
+        <Trash className="h-4 w-4 mr-2" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" onClick={onClear}>
+        <X className="h-4 w-4 mr-2" />
+        Clear
+      </Button>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete projects</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletable.allowed.length === 1 ? "1 project" : `${deletable.allowed.length} projects`} will be moved
+              to the trash. They can be restored from there until they are permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <SkippedProjectsNotice skipped={deletable.skipped} action="delete them" />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <TransferOwnershipDialog
+        open={transferOpen}
+        onOpenChange={setTransferOpen}
+        projects={transferable.allowed}
+        skipped={transferable.skipped}
+        candidates={ownerCandidates}
+        onConfirm={handleTransfer}
+      />
+
+      <BulkTagDialog
+        open={tagOpen}
+        onOpenChange={setTagOpen}
+        projects={taggable.allowed}
+        skipped={taggable.skipped}
+        onTagged={onTagged}
+      />
+    </div>
+  );
+};
+
+export default BulkActionBar;
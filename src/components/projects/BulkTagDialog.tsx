@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import { useTags } from "@/features/tags/tag-context";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { BulkActionResult, Project } from "@/types/project";
+import { Loader2 } from "lucide-react";
+import TagChip from "@/components/tags/TagChip";
+import SkippedProjectsNotice from "./SkippedProjectsNotice";
+
+interface BulkTagDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: Project[];
+  // Selected projects the user may not tag
+  skipped?: Project[];
+  onTagged: (result: BulkActionResult) => void;
+}
+
+const BulkTagDialog: React.FC<BulkTagDialogProps> = ({
+  open,
+  onOpenChange,
+  projects,
+  skipped = [],
+  onTagged,
+}) => {
+  const { tags, getTag, tagProjects } = useTags();
+  const [tagId, setTagId] = useState("");
+  const [savingMode, setSavingMode] = useState<"add" | "remove" | null>(null);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) setTagId("");
+  }, [open]);
+
+  const handleConfirm = async (mode: "add" | "remove") => {
+    const tag = getTag(tagId);
+    if (!tag) return;
+
+    setSavingMode(mode);
+    try {
+      const result = await tagProjects(projects, tag, mode);
+      onTagged(result);
+      onOpenChange(false);
+    } finally {
+      setSavingMode(null);
+    }
+  };
+
+  const isSaving = savingMode !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Tag projects</DialogTitle>
+          <DialogDescription>
+            Add a tag to {projects.length === 1 ? "1 project" : `${projects.length} projects`}, or remove it from them.
+            Their other tags are left as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <SkippedProjectsNotice skipped={skipped} action="tag them" />
+
+        <div className="space-y-2">
+          <Label>Tag</Label>
+          <Select value={tagId} onValueChange={setTagId} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a tag" />
+            </SelectTrigger>
+            <SelectContent>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>
+                  <TagChip tag={tag} />
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {tags.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              This organization has no tags yet. Tag managers can create them on the organization page.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => handleConfirm("remove")} disabled={isSaving || !tagId}>
+            {savingMode === "remove" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Remove tag
+          </Button>
+          <Button onClick={() => handleConfirm("add")} disabled={isSaving || !tagId}>
+            {savingMode === "add" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add tag
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkTagDialog;
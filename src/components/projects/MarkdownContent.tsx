@@ -0,0 +1,31 @@
+import React from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkBreaks from "remark-breaks";
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// Raw HTML in the source is escaped rather than rendered and unsafe link
+// protocols are dropped, so user content cannot inject markup or scripts.
+// Single line breaks are kept so content written as plain text reads as before.
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className }) => {
+  return (
+    <div className={cn("prose prose-neutral dark:prose-invert max-w-none break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkBreaks]}
+        skipHtml
+        components={{
+          a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
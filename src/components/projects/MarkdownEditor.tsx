@@ -0,0 +1,42 @@
+import React from "react";
+import { Textarea } from "@/components/ui/textarea";
+import MarkdownContent from "./MarkdownContent";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Editor and live preview side by side; stacked on narrow screens
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ id, value, onChange, placeholder, disabled }) => {
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-4 md:grid-cols-2">
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className="min-h-[320px] font-mono text-sm"
+          required
+          disabled={disabled}
+        />
+        <div className="min-h-[320px] max-h-[640px] border rounded-md p-4 bg-card/50 overflow-auto">
+          {value.trim() ? (
+            <MarkdownContent content={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">The preview appears here as you type</p>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Markdown is supported: headings, lists, code blocks, tables and links
+      </p>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,56 @@
+import React from "react";
+import { PresenceUser } from "@/types/presence";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+
+interface PresenceAvatarsProps {
+  users: PresenceUser[];
+  // Extra users beyond this are summarised as "+N"
+  max?: number;
+}
+
+const initials = (name: string) => {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join("");
+};
+
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ users, max = 5 }) => {
+  if (users.length === 0) return null;
+
+  const visible = users.slice(0, max);
+  const hidden = users.length - visible.length;
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {visible.map((presence) => (
+        <Tooltip key={presence.userId}>
+          <TooltipTrigger asChild>
+            <Avatar
+              className={cn(
+                "h-8 w-8 border-2 border-background",
+                presence.mode === "editing" && "ring-2 ring-primary"
+              )}
+            >
+              <AvatarFallback className="text-xs">{initials(presence.name) || "?"}</AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>
+            {presence.name} is {presence.mode}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden > 0 && (
+        <Avatar className="h-8 w-8 border-2 border-background">
+          <AvatarFallback className="text-xs">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { mergeThreeWay } from "@/lib/diff";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle } from "lucide-react";
+
+export interface ProjectDraft {
+  title: string;
+  content: string;
+}
+
+interface ProjectConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The version the edit started from, the user's edit and the current server version
+  base: ProjectDraft;
+  mine: ProjectDraft;
+  theirs: ProjectDraft;
+  isSaving: boolean;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (merged: ProjectDraft) => void;
+}
+
+const ProjectConflictDialog: React.FC<ProjectConflictDialogProps> = ({
+  open,
+  onOpenChange,
+  base,
+  mine,
+  theirs,
+  isSaving,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge,
+}) => {
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergedTitle, setMergedTitle] = useState("");
+  const [mergedContent, setMergedContent] = useState("");
+  const [conflicts, setConflicts] = useState(0);
+
+  useEffect(() => {
+    if (!open) setIsMerging(false);
+  }, [open]);
+
+  const startMerge = () => {
+    const merged = mergeThreeWay(base.content, mine.content, theirs.content);
+    // Titles are single lines, so only an untouched side can be merged automatically
+    setMergedTitle(mine.title === base.title ? theirs.title : mine.title);
+    setMergedContent(merged.text);
+    setConflicts(merged.conflicts);
+    setIsMerging(true);
+  };
+
+  const hasMarkers = /^(<<<<<<< |=======$|>>>>>>> )/m.test(mergedContent);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            <DialogTitle>Someone else saved this project</DialogTitle>
+          </div>
+          <DialogDescription>
+            The project changed after you started editing. Choose which version to keep, or merge the two.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isMerging ? (
+          <div className="space-y-4">
+            {conflicts > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {conflicts} conflicting {conflicts === 1 ? "section is" : "sections are"} marked
+                between <code>{"<<<<<<<"}</code> and <code>{">>>>>>>"}</code>. Edit them before saving.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="merged-title">Project Title</Label>
+              <Input
+                id="merged-title"
+                value={mergedTitle}
+                onChange={(e) => setMergedTitle(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="merged-content">Content</Label>
+              <Textarea
+                id="merged-content"
+                value={mergedContent}
+                onChange={(e) => setMergedContent(e.target.value)}
+                className="min-h-[300px] font-mono text-sm"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Your version</p>
+              <div className="border rounded-lg p-3 max-h-[300px] overflow-auto">
+                <p className="font-semibold mb-2">{mine.title}</p>
+                <pre className="whitespace-pre-wrap font-sans text-sm">{mine.content}</pre>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Current version</p>
+              <div className="border rounded-lg p-3 max-h-[300px] overflow-auto">
+                <p className="font-semibold mb-2">{theirs.title}</p>
+                <pre className="whitespace-pre-wrap font-sans text-sm">{theirs.content}</pre>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {isMerging ? (
+            <>
+              <Button variant="outline" onClick={() => setIsMerging(false)} disabled={isSaving}>
+                Back
+              </Button>
+              <Button
+                onClick={() => onMerge({ title: mergedTitle, content: mergedContent })}
+                disabled={isSaving || hasMarkers || !mergedTitle.trim() || !mergedContent.trim()}
+              >
+                Save merged version
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onTakeTheirs} disabled={isSaving}>
+                Take current version
+              </Button>
+              <Button variant="outline" onClick={startMerge} disabled={isSaving}>
+                Merge by hand
+              </Button>
+              <Button onClick={onKeepMine} disabled={isSaving}>
+                Keep mine
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectConflictDialog;
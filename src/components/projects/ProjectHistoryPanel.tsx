@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { useProjects } from "@/features/projects/project-context";
+import { ProjectConflictError } from "@/features/projects/errors";
+import { Project, ProjectRevision } from "@/types/project";
+import { diffLines } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { GitCompare, History, RotateCcw } from "lucide-react";
+
+interface ProjectHistoryPanelProps {
+  project: Project;
+  canRestore: boolean;
+  onRestored: (project: Project) => void;
+}
+
+const ProjectHistoryPanel: React.FC<ProjectHistoryPanelProps> = ({ project, canRestore, onRestored }) => {
+  const { getProjectRevisions, restoreProjectRevision } = useProjects();
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState("");
+  const [compareId, setCompareId] = useState("");
+
+  // Reload after every save so a restore shows up as the newest revision
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchRevisions = async () => {
+      setLoading(true);
+      const fetchedRevisions = await getProjectRevisions(project.id);
+      if (isMounted) {
+        setRevisions(fetchedRevisions);
+        // Default to comparing the two most recent versions
+        setCompareId(fetchedRevisions[0]?.id ?? "");
+        setBaseId(fetchedRevisions[1]?.id ?? fetchedRevisions[0]?.id ?? "");
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [project.id, project.updatedAt, getProjectRevisions]);
+
+  const versionLabel = (revision: ProjectRevision) => {
+    return `Version ${revisions.length - revisions.indexOf(revision)}`;
+  };
+
+  const base = revisions.find(r => r.id === baseId);
+  const compare = revisions.find(r => r.id === compareId);
+
+  const contentDiff = useMemo(() => {
+    if (!base || !compare) return [];
+    return diffLines(base.content, compare.content);
+  }, [base, compare]);
+
+  const handleRestore = async (revision: ProjectRevision) => {
+    try {
+      const restored = await restoreProjectRevision(revision, project.updatedAt);
+      onRestored(restored);
+    } catch (error) {
+      // Show the newer version instead of overwriting it
+      if (error instanceof ProjectConflictError) {
+        toast.error(error.message);
+        onRestored(error.current);
+      }
+      // Otherwise the project context already reported the error
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full mb-2" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <p className="text-sm text-muted-foreground">No revisions have been recorded for this project yet.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            <CardTitle>Revisions</CardTitle>
+          </div>
+          <CardDescription>
+            Every save of the title or content creates a new version
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Author</TableHead>
+                <TableHead>Saved</TableHead>
+                {canRestore && <TableHead className="w-[200px]" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revisions.map((revision, index) => (
+                <TableRow key={revision.id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {versionLabel(revision)}
+                      {index === 0 && <Badge variant="secondary">Current</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{revision.authorName}</TableCell>
+                  <TableCell>{new Date(revision.createdAt).toLocaleString()}</TableCell>
+                  {canRestore && (
+                    <TableCell className="text-right">
+                      {index > 0 && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Restore this version
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Restore {versionLabel(revision)}</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The project's title and content will be replaced with this version. The current version stays in the history.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRestore(revision)}>Restore</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-primary" />
+            <CardTitle>Compare versions</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <Select value={baseId} onValueChange={setBaseId}>
+              <SelectTrigger className="sm:w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((revision) => (
+                  <SelectItem key={revision.id} value={revision.id}>
+                    {versionLabel(revision)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">compared with</span>
+            <Select value={compareId} onValueChange={setCompareId}>
+              <SelectTrigger className="sm:w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((revision) => (
+                  <SelectItem key={revision.id} value={revision.id}>
+                    {versionLabel(revision)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {base && compare && (
+            <div className="border rounded-lg overflow-hidden font-mono text-sm">
+              {base.title !== compare.title && (
+                <div className="border-b p-2 space-y-1">
+                  <div className="bg-red-500/10 text-red-700 dark:text-red-400 px-2">- {base.title}</div>
+                  <div className="bg-green-500/10 text-green-700 dark:text-green-400 px-2">+ {compare.title}</div>
+                </div>
+              )}
+              {contentDiff.map((line, i) => (
+                <div
+                  key={i}
+                  className={cn(
+                    "px-2 whitespace-pre-wrap break-words",
+                    line.type === "added" && "bg-green-500/10 text-green-700 dark:text-green-400",
+                    line.type === "removed" && "bg-red-500/10 text-red-700 dark:text-red-400"
+                  )}
+                >
+                  {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                  {line.text}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ProjectHistoryPanel;
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/auth-context";
+import { useProjects } from "@/features/projects/project-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { useRoles } from "@/features/roles/role-context";
+import { useCan } from "@/features/permissions/use-can";
+import { canGrantProjectRole } from "@/features/permissions/policy";
+import { Project, ProjectMember } from "@/types/project";
+import { OrganizationMember } from "@/types/organization";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { UsersRound, UserPlus, X } from "lucide-react";
+
+interface ProjectMembersPanelProps {
+  project: Project;
+}
+
+const ProjectMembersPanel: React.FC<ProjectMembersPanelProps> = ({ project }) => {
+  const { getProjectMembers, addProjectMember, updateProjectMemberRole, removeProjectMember } = useProjects();
+  const { getOrganizationMembers } = useOrganizations();
+  const { user } = useAuth();
+  const { roles } = useRoles();
+  const canManageMembers = useCan("project:manage-members", project);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [orgMembers, setOrgMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newMemberId, setNewMemberId] = useState("");
+  const [newMemberRole, setNewMemberRole] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchMembers = async () => {
+      setLoading(true);
+      const fetchedMembers = await getProjectMembers(project.id);
+      if (isMounted) {
+        setMembers(fetchedMembers);
+        setLoading(false);
+      }
+    };
+
+    fetchMembers();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [project.id, getProjectMembers]);
+
+  // Only members of the project's organization can be invited
+  useEffect(() => {
+    if (!canManageMembers) return;
+
+    let isMounted = true;
+    getOrganizationMembers(project.orgId).then(fetchedMembers => {
+      if (isMounted) setOrgMembers(fetchedMembers);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [canManageMembers, project.orgId, getOrganizationMembers]);
+
+  // Roles with capabilities the current user lacks on this project cannot be handed out
+  const grantableRoles = useMemo(() => {
+    return roles.filter(role => canGrantProjectRole(user, project, role));
+  }, [roles, user, project]);
+
+  const candidates = useMemo(() => {
+    return orgMembers.filter(o => !members.some(m => m.userId === o.userId));
+  }, [orgMembers, members]);
+
+  const handleAdd = async () => {
+    if (!newMemberId || !newMemberRole) return;
+
+    setIsAdding(true);
+    try {
+      const member = await addProjectMember(project.id, newMemberId, newMemberRole);
+      setMembers(prev => [...prev, member]);
+      setNewMemberId("");
+      setNewMemberRole("");
+    } catch (error) {
+      // The project context already reported the error
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: string) => {
+    try {
+      const member = await updateProjectMemberRole(project.id, userId, role);
+      setMembers(prev => prev.map(m => m.userId === userId ? member : m));
+    } catch (error) {
+      // The project context already reported the error
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    try {
+      await removeProjectMember(project.id, userId);
+      setMembers(prev => prev.filter(m => m.userId !== userId));
+    } catch (error) {
+      // The project context already reported the error
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <UsersRound className="h-5 w-5 text-primary" />
+          <CardTitle>Members</CardTitle>
+        </div>
+        <CardDescription>
+          A member's project role replaces their organization and global roles on this project
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          Array.from({ length: 2 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full mb-2" />
+          ))
+        ) : members.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-[180px]">Project role</TableHead>
+                {canManageMembers && <TableHead className="w-[60px]" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => (
+                <TableRow key={member.userId}>
+                  <TableCell className="font-medium">{member.name}</TableCell>
+                  <TableCell>
+                    {canManageMembers ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.userId, value)}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map((role) => (
+                            <SelectItem key={role.name} value={role.name} disabled={!grantableRoles.includes(role)}>
+                              {role.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      member.role
+                    )}
+                  </TableCell>
+                  {canManageMembers && (
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(member.userId)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No members yet. Users without a project role use their organization or global role.
+          </p>
+        )}
+
+        {canManageMembers && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={newMemberId} onValueChange={setNewMemberId}>
+              <SelectTrigger className="sm:flex-1">
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.userId} value={candidate.userId}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newMemberRole} onValueChange={setNewMemberRole}>
+              <SelectTrigger className="sm:w-[180px]">
+                <SelectValue placeholder="Role" />
+              </SelectTrigger>
+              <SelectContent>
+                {grantableRoles.map((role) => (
+                  <SelectItem key={role.name} value={role.name}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={!newMemberId || !newMemberRole || isAdding}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectMembersPanel;
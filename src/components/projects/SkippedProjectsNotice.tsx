@@ -0,0 +1,34 @@
+import React from "react";
+import { Project } from "@/types/project";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+
+interface SkippedProjectsNoticeProps {
+  skipped: Project[];
+  // Completes "You don't have permission to ..."
+  action: string;
+}
+
+// Lists the selected projects a bulk action leaves out
+const SkippedProjectsNotice: React.FC<SkippedProjectsNoticeProps> = ({ skipped, action }) => {
+  if (skipped.length === 0) return null;
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription>
+        <p>
+          {skipped.length === 1 ? "1 project" : `${skipped.length} projects`} will be skipped because
+          you don't have permission to {action}:
+        </p>
+        <ul className="list-disc pl-5 mt-1 max-h-[120px] overflow-auto">
+          {skipped.map((project) => (
+            <li key={project.id}>{project.title}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default SkippedProjectsNotice;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Project } from "@/types/project";
+import { Loader2 } from "lucide-react";
+import SkippedProjectsNotice from "./SkippedProjectsNotice";
+
+export interface OwnerCandidate {
+  id: string;
+  name: string;
+}
+
+interface TransferOwnershipDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Every project is selected initially; with more than one they can be unticked
+  projects: Project[];
+  candidates: OwnerCandidate[];
+  // Selected projects the user may not transfer, listed so nothing is left out silently
+  skipped?: Project[];
+  onConfirm: (projects: Project[], newOwnerId: string) => Promise<void>;
+}
+
+const TransferOwnershipDialog: React.FC<TransferOwnershipDialogProps> = ({
+  open,
+  onOpenChange,
+  projects,
+  candidates,
+  skipped = [],
+  onConfirm,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(projects.map(project => project.id));
+      setNewOwnerId("");
+    }
+  }, [open, projects]);
+
+  // Nobody can take over a project they already own
+  const availableCandidates = candidates.filter(candidate =>
+    !projects.some(project => selectedIds.includes(project.id) && project.createdBy === candidate.id)
+  );
+
+  const toggleProject = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(projects.filter(project => selectedIds.includes(project.id)), newOwnerId);
+      onOpenChange(false);
+    } catch (error) {
+      // The project context already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const newOwner = candidates.find(candidate => candidate.id === newOwnerId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Transfer ownership</DialogTitle>
+          <DialogDescription>
+            The new owner gets the owner-only rights on {projects.length === 1 ? "this project" : "the selected projects"}.
+            The previous owner keeps only the access their role gives them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <SkippedProjectsNotice skipped={skipped} action="transfer them" />
+
+        {projects.length > 1 ? (
+          <div className="space-y-2 max-h-[240px] overflow-auto border rounded-lg p-3">
+            {projects.map((project) => (
+              <div key={project.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`transfer-${project.id}`}
+                  checked={selectedIds.includes(project.id)}
+                  onCheckedChange={(checked) => toggleProject(project.id, checked === true)}
+                  disabled={isSaving}
+                />
+                <Label htmlFor={`transfer-${project.id}`} className="font-normal">
+                  {project.title}
+                </Label>
+              </div>
+            ))}
+          </div>
+        ) : projects.length === 0 ? (
+          <p className="text-sm text-muted-foreground">There are no projects to transfer.</p>
+        ) : null}
+
+        <div className="space-y-2">
+          <Label>New owner</Label>
+          <Select value={newOwnerId} onValueChange={setNewOwnerId} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableCandidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {newOwner && selectedIds.length > 0 && (
+          <p className="text-sm">
+            {selectedIds.length === 1 ? "1 project" : `${selectedIds.length} projects`} will be transferred
+            to <strong>{newOwner.name}</strong>.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving || !newOwnerId || selectedIds.length === 0}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferOwnershipDialog;
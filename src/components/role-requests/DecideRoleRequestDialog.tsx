@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RoleRequest } from "@/types/role-request";
+import { Loader2 } from "lucide-react";
+
+interface DecideRoleRequestDialogProps {
+  // The request being decided; the dialog is open while it is set
+  request: RoleRequest | null;
+  approve: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (request: RoleRequest, approve: boolean, comment: string) => Promise<void>;
+}
+
+const DecideRoleRequestDialog: React.FC<DecideRoleRequestDialogProps> = ({ request, approve, onOpenChange, onConfirm }) => {
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (request) setComment("");
+  }, [request]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request) return;
+
+    setIsSaving(true);
+    try {
+      await onConfirm(request, approve, comment);
+      onOpenChange(false);
+    } catch (error) {
+      // useRoleRequests already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        {request && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{approve ? "Approve" : "Deny"} role request</DialogTitle>
+              <DialogDescription>
+                {approve
+                  ? `${request.requesterName} gets the ${request.role} role right away.`
+                  : `${request.requesterName} keeps the ${request.currentRole ?? "current"} role.`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="role-request-comment">Comment (optional)</Label>
+              <Textarea
+                id="role-request-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Shown to the requester with the decision"
+                disabled={isSaving}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" variant={approve ? "default" : "destructive"} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {approve ? "Approve" : "Deny"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DecideRoleRequestDialog;
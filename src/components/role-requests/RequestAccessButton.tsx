@@ -0,0 +1,51 @@
+import React, { useState } from "react";
+import { useRoleRequests } from "@/features/role-requests/use-role-requests";
+import { Capability } from "@/types/role";
+import { UserRole } from "@/types/auth";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { Clock, KeyRound } from "lucide-react";
+import RequestRoleDialog from "./RequestRoleDialog";
+
+interface RequestAccessButtonProps {
+  suggestedCapability?: Capability;
+  variant?: ButtonProps["variant"];
+  // Called after a request has been filed
+  onRequested?: () => void;
+}
+
+// Opens the role request dialog, or shows that a request is already waiting
+const RequestAccessButton: React.FC<RequestAccessButtonProps> = ({ suggestedCapability, variant, onRequested }) => {
+  const { pendingRequest, isLoading, requestRole } = useRoleRequests("mine");
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const handleSubmit = async (role: UserRole, justification: string) => {
+    await requestRole(role, justification);
+    onRequested?.();
+  };
+
+  if (pendingRequest) {
+    return (
+      <Button variant={variant} disabled>
+        <Clock className="h-4 w-4 mr-2" />
+        {pendingRequest.role} requested
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button variant={variant} onClick={() => setDialogOpen(true)} disabled={isLoading}>
+        <KeyRound className="h-4 w-4 mr-2" />
+        Request access
+      </Button>
+      <RequestRoleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        suggestedCapability={suggestedCapability}
+        onSubmit={handleSubmit}
+      />
+    </>
+  );
+};
+
+export default RequestAccessButton;
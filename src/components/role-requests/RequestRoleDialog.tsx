@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/auth-context";
+import { useRoles } from "@/features/roles/role-context";
+import { Capability, hasCapability } from "@/types/role";
+import { UserRole } from "@/types/auth";
+import { Loader2 } from "lucide-react";
+
+interface RequestRoleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Preselects the first role that grants it, e.g. projects:create on the project form
+  suggestedCapability?: Capability;
+  onSubmit: (role: UserRole, justification: string) => Promise<void>;
+}
+
+const RequestRoleDialog: React.FC<RequestRoleDialogProps> = ({ open, onOpenChange, suggestedCapability, onSubmit }) => {
+  const { user } = useAuth();
+  const { roles } = useRoles();
+  const [role, setRole] = useState("");
+  const [justification, setJustification] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const requestableRoles = useMemo(() => roles.filter(r => r.name !== user?.role), [roles, user?.role]);
+  const suggestedRole = useMemo(() => {
+    const suggested = suggestedCapability && requestableRoles.find(r => hasCapability(r, suggestedCapability));
+    return suggested?.name ?? "";
+  }, [requestableRoles, suggestedCapability]);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setRole(suggestedRole);
+      setJustification("");
+    }
+  }, [open, suggestedRole]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!role || !justification.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(role, justification.trim());
+      onOpenChange(false);
+    } catch (error) {
+      // useRoleRequests already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Request access</DialogTitle>
+            <DialogDescription>
+              A user manager reviews your request. You'll be notified when they approve or deny it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={setRole} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select role" />
+              </SelectTrigger>
+              <SelectContent>
+                {requestableRoles.map((r) => (
+                  <SelectItem key={r.name} value={r.name}>
+                    {r.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {role && (
+              <p className="text-xs text-muted-foreground">
+                {roles.find(r => r.name === role)?.description || "No description"}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="role-request-justification">Why do you need it?</Label>
+            <Textarea
+              id="role-request-justification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="e.g. I'm taking over the onboarding docs and need to edit them"
+              required
+              disabled={isSaving}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !role || !justification.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send request
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequestRoleDialog;
@@ -0,0 +1,16 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { ROLE_REQUEST_STATUS_LABELS, RoleRequestStatus } from "@/types/role-request";
+
+const STATUS_VARIANTS: Record<RoleRequestStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "default",
+  approved: "secondary",
+  denied: "destructive",
+  cancelled: "outline",
+};
+
+const RoleRequestStatusBadge: React.FC<{ status: RoleRequestStatus }> = ({ status }) => {
+  return <Badge variant={STATUS_VARIANTS[status]}>{ROLE_REQUEST_STATUS_LABELS[status]}</Badge>;
+};
+
+export default RoleRequestStatusBadge;
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { useRoleRequests } from "@/features/role-requests/use-role-requests";
+import { useRoles } from "@/features/roles/role-context";
+import { RoleRequest } from "@/types/role-request";
+import { Role } from "@/types/role";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowRight, Check, Inbox, X } from "lucide-react";
+import DecideRoleRequestDialog from "./DecideRoleRequestDialog";
+import RoleRequestStatusBadge from "./RoleRequestStatusBadge";
+
+interface RoleRequestsPanelProps {
+  // Approving is refused by the database for roles the approver could not grant
+  canGrant: (role: Role) => boolean;
+  // Called after an approval changed someone's role
+  onApproved?: (request: RoleRequest) => void;
+}
+
+const RoleRequestsPanel: React.FC<RoleRequestsPanelProps> = ({ canGrant, onApproved }) => {
+  const { requests, isLoading, decideRequest } = useRoleRequests("all");
+  const { getRole } = useRoles();
+  const [filter, setFilter] = useState<"pending" | "all">("pending");
+  const [decision, setDecision] = useState<{ request: RoleRequest; approve: boolean } | null>(null);
+
+  const pendingCount = requests.filter(r => r.status === "pending").length;
+  const visibleRequests = filter === "pending" ? requests.filter(r => r.status === "pending") : requests;
+
+  const handleDecide = async (request: RoleRequest, approve: boolean, comment: string) => {
+    await decideRequest(request, approve, comment);
+    if (approve) onApproved?.(request);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Inbox className="h-5 w-5 text-primary" />
+          <CardTitle>Role Requests</CardTitle>
+        </div>
+        <CardDescription>
+          Users asking for a different role. Approving changes their role right away.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as "pending" | "all")}>
+          <TabsList>
+            <TabsTrigger value="pending">Pending ({pendingCount})</TabsTrigger>
+            <TabsTrigger value="all">All ({requests.length})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          Array.from({ length: 2 }).map((_, i) => (
+            <Skeleton key={i} className="h-12 w-full mb-2" />
+          ))
+        ) : visibleRequests.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Justification</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[200px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRequests.map((request) => {
+                const role = getRole(request.role);
+                const canApprove = !!role && canGrant(role);
+
+                return (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">
+                      {request.requesterName}
+                      <p className="text-xs text-muted-foreground font-normal">
+                        {new Date(request.createdAt).toLocaleString()}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1.5 whitespace-nowrap">
+                        {request.status === "pending" && request.currentRole && (
+                          <>
+                            <span className="text-muted-foreground">{request.currentRole}</span>
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          </>
+                        )}
+                        <span>{request.role}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-[320px] whitespace-pre-wrap break-words text-sm">
+                      {request.justification}
+                    </TableCell>
+                    <TableCell>
+                      <RoleRequestStatusBadge status={request.status} />
+                      {request.decidedAt && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          by {request.decidedByName}, {new Date(request.decidedAt).toLocaleDateString()}
+                          {request.decisionComment && <p className="italic">"{request.decisionComment}"</p>}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {request.status === "pending" && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => setDecision({ request, approve: true })}
+                            disabled={!canApprove}
+                            title={canApprove ? undefined : "This role has capabilities you don't have"}
+                          >
+                            <Check className="h-4 w-4 mr-2" />
+                            Approve
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setDecision({ request, approve: false })}>
+                            <X className="h-4 w-4 mr-2" />
+                            Deny
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {filter === "pending" ? "No requests are waiting for a decision." : "Nobody has requested a role yet."}
+          </p>
+        )}
+      </CardContent>
+
+      <DecideRoleRequestDialog
+        request={decision?.request ?? null}
+        approve={decision?.approve ?? false}
+        onOpenChange={(open) => !open && setDecision(null)}
+        onConfirm={handleDecide}
+      />
+    </Card>
+  );
+};
+
+export default RoleRequestsPanel;
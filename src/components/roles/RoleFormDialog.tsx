@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CAPABILITIES, Capability, Role, RoleInput } from "@/types/role";
+import { Loader2 } from "lucide-react";
+
+interface RoleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The role being edited, or null when creating a new one
+  role: Role | null;
+  onSubmit: (input: RoleInput) => Promise<void>;
+}
+
+const RoleFormDialog: React.FC<RoleFormDialogProps> = ({ open, onOpenChange, role, onSubmit }) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [capabilities, setCapabilities] = useState<Capability[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(role?.name ?? "");
+      setDescription(role?.description ?? "");
+      setCapabilities(role?.capabilities ?? []);
+    }
+  }, [open, role]);
+
+  const toggleCapability = (capability: Capability, checked: boolean) => {
+    setCapabilities(prev =>
+      checked ? [...prev, capability] : prev.filter(c => c !== capability)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit({ name: name.trim(), description: description.trim(), capabilities });
+      onOpenChange(false);
+    } catch (error) {
+      // The role context already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{role ? `Edit ${role.name}` : "Create role"}</DialogTitle>
+            <DialogDescription>
+              Choose what users with this role are allowed to do.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="role-name">Name</Label>
+            <Input
+              id="role-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Reviewer"
+              required
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="role-description">Description</Label>
+            <Textarea
+              id="role-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this role for?"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Capabilities</Label>
+            {CAPABILITIES.map((capability) => (
+              <div key={capability.id} className="flex items-start gap-3">
+                <Checkbox
+                  id={`capability-${capability.id}`}
+                  checked={capabilities.includes(capability.id)}
+                  onCheckedChange={(checked) => toggleCapability(capability.id, checked === true)}
+                  disabled={isSaving}
+                />
+                <div className="grid gap-0.5 leading-none">
+                  <Label htmlFor={`capability-${capability.id}`}>{capability.label}</Label>
+                  <p className="text-xs text-muted-foreground">{capability.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {role ? "Save changes" : "Create role"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoleFormDialog;
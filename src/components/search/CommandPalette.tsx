@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useProjects } from "@/features/projects/project-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { DEFAULT_PROJECT_QUERY, ProjectSearchResult } from "@/types/project";
+import { OrganizationMember } from "@/types/organization";
+import { Button } from "@/components/ui/button";
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { FileText, Search, User } from "lucide-react";
+import HighlightedText from "./HighlightedText";
+
+// Results per group; the projects page has the full list
+const RESULT_LIMIT = 5;
+
+const CommandPalette: React.FC = () => {
+  const navigate = useNavigate();
+  const { searchProjects } = useProjects();
+  const { activeOrganization, getOrganizationMembers } = useOrganizations();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [projectResults, setProjectResults] = useState<ProjectSearchResult[]>([]);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+
+  const orgId = activeOrganization?.id;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // People are matched locally against the organization's members
+  useEffect(() => {
+    if (!open || !orgId) return;
+
+    let isMounted = true;
+    getOrganizationMembers(orgId).then(fetchedMembers => {
+      if (isMounted) setMembers(fetchedMembers);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, orgId, getOrganizationMembers]);
+
+  useEffect(() => {
+    const text = search.trim();
+    if (!open || !text) {
+      setProjectResults([]);
+      return;
+    }
+
+    let isMounted = true;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const page = await searchProjects({ ...DEFAULT_PROJECT_QUERY, pageSize: RESULT_LIMIT, search: text });
+        if (isMounted) setProjectResults(page.results);
+      } catch (error) {
+        // Keep the previous results; the service already logged the failure
+      }
+    }, 200);
+
+    return () => {
+      isMounted = false;
+      clearTimeout(timeoutId);
+    };
+  }, [open, search, searchProjects]);
+
+  const text = search.trim().toLowerCase();
+  const userResults = text
+    ? members.filter(m => m.name.toLowerCase().includes(text)).slice(0, RESULT_LIMIT)
+    : [];
+
+  const go = (path: string) => {
+    setOpen(false);
+    setSearch("");
+    navigate(path);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden lg:inline-block">Search</span>
+        <kbd className="hidden lg:inline-flex pointer-events-none h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium">
+          <span className="text-xs">⌘</span>K
+        </kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search projects and people..."
+          value={search}
+          onValueChange={setSearch}
+        />
+        <CommandList>
+          {text && <CommandEmpty>No results found.</CommandEmpty>}
+
+          {projectResults.length > 0 && (
+            <CommandGroup heading="Projects">
+              {projectResults.map(({ project, titleHighlight, authorName }) => (
+                <CommandItem
+                  key={project.id}
+                  value={`project-${project.id}`}
+                  onSelect={() => go(`/projects/${project.id}`)}
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  <span className="truncate">
+                    <HighlightedText text={titleHighlight} />
+                  </span>
+                  {authorName && (
+                    <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">{authorName}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {userResults.length > 0 && (
+            <CommandGroup heading="People">
+              {userResults.map((member) => (
+                <CommandItem
+                  key={member.userId}
+                  value={`user-${member.userId}`}
+                  onSelect={() => go(`/projects?author=${member.userId}`)}
+                >
+                  <User className="mr-2 h-4 w-4" />
+                  <span className="truncate">{member.name}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">View projects</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,31 @@
+import React from "react";
+
+// Delimiters the search_projects function wraps around matched words
+const HIGHLIGHT_PATTERN = /\[\[\[(.*?)\]\]\]/g;
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Renders search highlights as <mark> elements. The text is never parsed as
+// HTML, so content cannot inject markup through a snippet.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text }) => {
+  const parts = text.split(HIGHLIGHT_PATTERN);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        // split() puts captured matches at odd indexes
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 text-inherit rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from "react";
+import { useTags } from "@/features/tags/tag-context";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Tag } from "@/types/tag";
+import { Loader2 } from "lucide-react";
+import TagChip from "./TagChip";
+
+interface MergeTagDialogProps {
+  // The tag that disappears, or null when the dialog is closed
+  source: Tag | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MergeTagDialog: React.FC<MergeTagDialogProps> = ({ source, onOpenChange }) => {
+  const { tags, mergeTags } = useTags();
+  const [targetId, setTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (source) setTargetId("");
+  }, [source]);
+
+  const target = tags.find(tag => tag.id === targetId);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await mergeTags(source, target);
+      onOpenChange(false);
+    } catch (error) {
+      // The tag context already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Merge {source?.name}</DialogTitle>
+          <DialogDescription>
+            Every project tagged "{source?.name}" gets the tag you choose instead, and "{source?.name}" is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Merge into</Label>
+          <Select value={targetId} onValueChange={setTargetId} disabled={isSaving}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a tag" />
+            </SelectTrigger>
+            <SelectContent>
+              {tags.filter(tag => tag.id !== source?.id).map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>
+                  <TagChip tag={tag} />
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving || !target}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeTagDialog;
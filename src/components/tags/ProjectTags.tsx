@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from "react";
+import { useTags } from "@/features/tags/tag-context";
+import { Project } from "@/types/project";
+import { Button } from "@/components/ui/button";
+import { Tags } from "lucide-react";
+import TagChip from "./TagChip";
+import TagSelect from "./TagSelect";
+
+interface ProjectTagsProps {
+  project: Project;
+  canTag: boolean;
+}
+
+// A project's tags, editable in place for users who may tag it
+const ProjectTags: React.FC<ProjectTagsProps> = ({ project, canTag }) => {
+  const { getTag, getProjectTagIds, setProjectTags } = useTags();
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    getProjectTagIds([project.id]).then(projectTags => {
+      if (isMounted) setTagIds(projectTags[project.id] ?? []);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [project.id, getProjectTagIds]);
+
+  const handleChange = async (next: string[]) => {
+    const previous = tagIds;
+    setTagIds(next);
+    setIsSaving(true);
+    try {
+      await setProjectTags(project, previous, next);
+    } catch (error) {
+      // The tag context already reported the error
+      setTagIds(previous);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const tags = tagIds.map(getTag).filter(Boolean);
+
+  if (tags.length === 0 && !canTag) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      {tags.map((tag) => (
+        <TagChip key={tag.id} tag={tag} />
+      ))}
+      {canTag && (
+        <TagSelect value={tagIds} onChange={handleChange} disabled={isSaving}>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-muted-foreground">
+            <Tags className="h-3.5 w-3.5 mr-1" />
+            {tags.length > 0 ? "Edit tags" : "Add tags"}
+          </Button>
+        </TagSelect>
+      )}
+    </div>
+  );
+};
+
+export default ProjectTags;
@@ -0,0 +1,24 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { getTagColorClassName, Tag } from "@/types/tag";
+
+interface TagChipProps {
+  tag: Pick<Tag, "name" | "color">;
+  className?: string;
+}
+
+const TagChip: React.FC<TagChipProps> = ({ tag, className }) => {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium",
+        getTagColorClassName(tag.color),
+        className
+      )}
+    >
+      {tag.name}
+    </span>
+  );
+};
+
+export default TagChip;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tag, TAG_COLORS, TagColor, TagInput } from "@/types/tag";
+import { Loader2 } from "lucide-react";
+import TagChip from "./TagChip";
+
+interface TagFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The tag being edited, or null when creating a new one
+  tag: Tag | null;
+  onSubmit: (input: TagInput) => Promise<void>;
+}
+
+const TagFormDialog: React.FC<TagFormDialogProps> = ({ open, onOpenChange, tag, onSubmit }) => {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<TagColor>("gray");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(tag?.name ?? "");
+      setColor(tag?.color ?? "gray");
+    }
+  }, [open, tag]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit({ name: name.trim(), color });
+      onOpenChange(false);
+    } catch (error) {
+      // The tag context already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{tag ? `Edit ${tag.name}` : "Create tag"}</DialogTitle>
+            <DialogDescription>
+              {tag
+                ? "Renaming a tag updates it on every project that carries it."
+                : "Tags are shared by every project in this organization."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">Name</Label>
+            <Input
+              id="tag-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Design"
+              required
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <RadioGroup
+              value={color}
+              onValueChange={(value) => setColor(value as TagColor)}
+              className="grid grid-cols-3 gap-2"
+              disabled={isSaving}
+            >
+              {TAG_COLORS.map((definition) => (
+                <div key={definition.id} className="flex items-center gap-2">
+                  <RadioGroupItem id={`tag-color-${definition.id}`} value={definition.id} />
+                  <Label htmlFor={`tag-color-${definition.id}`} className="font-normal">
+                    <TagChip tag={{ name: definition.label, color: definition.id }} />
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {tag ? "Save changes" : "Create tag"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagFormDialog;
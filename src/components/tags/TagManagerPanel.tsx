@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import { useTags } from "@/features/tags/tag-context";
+import { Tag, TagInput } from "@/types/tag";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Combine, Pencil, Plus, Tags, Trash2 } from "lucide-react";
+import TagChip from "./TagChip";
+import TagFormDialog from "./TagFormDialog";
+import MergeTagDialog from "./MergeTagDialog";
+
+// The organization's tag vocabulary, for users who may manage it
+const TagManagerPanel: React.FC = () => {
+  const { tags, isLoading, createTag, updateTag, deleteTag } = useTags();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingTag, setEditingTag] = useState<Tag | null>(null);
+  const [mergeSource, setMergeSource] = useState<Tag | null>(null);
+
+  const openForm = (tag: Tag | null) => {
+    setEditingTag(tag);
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async (input: TagInput) => {
+    if (editingTag) {
+      await updateTag(editingTag, input);
+    } else {
+      await createTag(input);
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    try {
+      await deleteTag(tag);
+    } catch (error) {
+      // The tag context already reported the error
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Tags className="h-5 w-5 text-primary" />
+            <CardTitle>Tags</CardTitle>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New tag
+          </Button>
+        </div>
+        <CardDescription>
+          Keep the vocabulary tidy: rename tags, or merge near-duplicates into one
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full mb-2" />
+          ))
+        ) : tags.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tag</TableHead>
+                <TableHead className="w-[300px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tags.map((tag) => (
+                <TableRow key={tag.id}>
+                  <TableCell>
+                    <TagChip tag={tag} />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(tag)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setMergeSource(tag)}
+                      disabled={tags.length < 2}
+                    >
+                      <Combine className="h-4 w-4 mr-2" />
+                      Merge
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm">
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete tag</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            "{tag.name}" will be removed from every project that carries it.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(tag)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This organization has no tags yet.
+          </p>
+        )}
+      </CardContent>
+
+      <TagFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        tag={editingTag}
+        onSubmit={handleSubmit}
+      />
+
+      <MergeTagDialog
+        source={mergeSource}
+        onOpenChange={(open) => !open && setMergeSource(null)}
+      />
+    </Card>
+  );
+};
+
+export default TagManagerPanel;
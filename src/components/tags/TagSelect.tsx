@@ -0,0 +1,50 @@
+import React from "react";
+import { useTags } from "@/features/tags/tag-context";
+import { cn } from "@/lib/utils";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Check } from "lucide-react";
+import TagChip from "./TagChip";
+
+interface TagSelectProps {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  // The button that opens the list
+  children: React.ReactNode;
+  disabled?: boolean;
+}
+
+// Searchable multi-select over the active organization's tags
+const TagSelect: React.FC<TagSelectProps> = ({ value, onChange, children, disabled }) => {
+  const { tags } = useTags();
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter(tagId => tagId !== id) : [...value, id]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild disabled={disabled}>
+        {children}
+      </PopoverTrigger>
+      <PopoverContent className="w-[240px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Find a tag..." />
+          <CommandList>
+            <CommandEmpty>No tags found.</CommandEmpty>
+            <CommandGroup>
+              {tags.map((tag) => (
+                <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                  <Check className={cn("h-4 w-4 mr-2", value.includes(tag.id) ? "opacity-100" : "opacity-0")} />
+                  <TagChip tag={tag} />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TagSelect;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRoles } from "@/features/roles/role-context";
+import { Role } from "@/types/role";
+import { User, UserRole } from "@/types/auth";
+import { Loader2 } from "lucide-react";
+
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+// datetime-local inputs take local time without a timezone
+const toDateTimeLocal = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+interface GrantTemporaryRoleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Users whose role the current user may change
+  users: User[];
+  canGrant: (role: Role) => boolean;
+  onSubmit: (user: User, role: UserRole, expiresAt: string) => Promise<void>;
+}
+
+const GrantTemporaryRoleDialog: React.FC<GrantTemporaryRoleDialogProps> = ({
+  open,
+  onOpenChange,
+  users,
+  canGrant,
+  onSubmit,
+}) => {
+  const { roles } = useRoles();
+  const [userId, setUserId] = useState("");
+  const [role, setRole] = useState("");
+  const [until, setUntil] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens, ending an hour from now
+  useEffect(() => {
+    if (open) {
+      setUserId("");
+      setRole("");
+      setUntil(toDateTimeLocal(new Date(Date.now() + DEFAULT_DURATION_MS)));
+    }
+  }, [open]);
+
+  const selectedUser = users.find(u => u.id === userId);
+  const isInFuture = until !== "" && new Date(until).getTime() > Date.now();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedUser || !role || !isInFuture) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(selectedUser, role, new Date(until).toISOString());
+      onOpenChange(false);
+    } catch (error) {
+      // useRoleGrants already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Grant temporary role</DialogTitle>
+            <DialogDescription>
+              The user acts with this role until the time below, then goes back to their own role automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={userId} onValueChange={setUserId} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select user" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.name} ({u.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={setRole} disabled={isSaving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((r) => (
+                    <SelectItem key={r.name} value={r.name} disabled={!canGrant(r) || r.name === selectedUser?.role}>
+                      {r.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="temporary-role-until">Until</Label>
+              <Input
+                id="temporary-role-until"
+                type="datetime-local"
+                value={until}
+                min={toDateTimeLocal(new Date())}
+                onChange={(e) => setUntil(e.target.value)}
+                required
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !selectedUser || !role || !isInFuture}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Grant role
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GrantTemporaryRoleDialog;
@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { useInvitations } from "@/features/invitations/use-invitations";
+import { getInvitationLink, Invitation, InvitationInput, InvitationStatus } from "@/types/invitation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Copy, Mail, RefreshCw, UserPlus, XCircle } from "lucide-react";
+import InviteUserDialog from "./InviteUserDialog";
+
+const STATUS_VARIANTS: Record<InvitationStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "default",
+  accepted: "secondary",
+  expired: "outline",
+  revoked: "destructive",
+};
+
+const STATUS_TABS: (InvitationStatus | "all")[] = ["pending", "accepted", "expired", "revoked", "all"];
+
+// Clipboard access can be refused, so the link is shown in the toast as well
+const copyInvitationLink = async (invitation: Invitation, message: string) => {
+  const link = getInvitationLink(invitation.token);
+  try {
+    await navigator.clipboard.writeText(link);
+    toast.success(message, { description: link });
+  } catch (error) {
+    toast.info("Copy this invitation link", { description: link, duration: 30000 });
+  }
+};
+
+const InvitationsPanel: React.FC = () => {
+  const { invitations, isLoading, createInvitation, resendInvitation, revokeInvitation } = useInvitations();
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | "all">("pending");
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const visibleInvitations = statusFilter === "all"
+    ? invitations
+    : invitations.filter(i => i.status === statusFilter);
+
+  const countFor = (status: InvitationStatus | "all") => {
+    return status === "all" ? invitations.length : invitations.filter(i => i.status === status).length;
+  };
+
+  const handleCreate = async (input: InvitationInput) => {
+    const invitation = await createInvitation(input);
+    await copyInvitationLink(invitation, `Invitation link for ${invitation.email} copied`);
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    try {
+      const resent = await resendInvitation(invitation);
+      await copyInvitationLink(resent, `New invitation link for ${resent.email} copied`);
+    } catch (error) {
+      // useInvitations already reported the error
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await revokeInvitation(invitation);
+    } catch (error) {
+      // useInvitations already reported the error
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Mail className="h-5 w-5 text-primary" />
+            <CardTitle>Invitations</CardTitle>
+          </div>
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite user
+          </Button>
+        </div>
+        <CardDescription>
+          People who sign up through an invitation link get the invited role automatically
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as InvitationStatus | "all")}>
+          <TabsList>
+            {STATUS_TABS.map((status) => (
+              <TabsTrigger key={status} value={status} className="capitalize">
+                {status} ({countFor(status)})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-12 w-full mb-2" />
+          ))
+        ) : visibleInvitations.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Invited by</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[260px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleInvitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell className="font-medium">
+                    {invitation.email}
+                    {invitation.name && <p className="text-xs text-muted-foreground font-normal">{invitation.name}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <div>{invitation.role}</div>
+                    {invitation.projectId && (
+                      <div className="text-xs text-muted-foreground">
+                        {invitation.projectRole} on {invitation.projectTitle ?? "a hidden project"}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{invitation.invitedByName}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[invitation.status]} className="capitalize">
+                      {invitation.status}
+                    </Badge>
+                    <div className="text-xs text-muted-foreground mt-1 whitespace-nowrap">
+                      {invitation.status === "accepted"
+                        ? `Accepted ${new Date(invitation.acceptedAt).toLocaleDateString()}`
+                        : invitation.status === "revoked"
+                          ? `Revoked ${new Date(invitation.revokedAt).toLocaleDateString()}`
+                          : `Expires ${new Date(invitation.expiresAt).toLocaleString()}`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {invitation.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Copy link"
+                          onClick={() => copyInvitationLink(invitation, "Invitation link copied")}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(invitation.status === "pending" || invitation.status === "expired") && (
+                        <Button variant="outline" size="sm" onClick={() => handleResend(invitation)}>
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Resend
+                        </Button>
+                      )}
+                      {invitation.status === "pending" && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Revoke
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revoke invitation</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The invitation link for {invitation.email} will stop working immediately.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRevoke(invitation)}>Revoke</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No {statusFilter === "all" ? "" : `${statusFilter} `}invitations.</p>
+        )}
+      </CardContent>
+
+      <InviteUserDialog open={dialogOpen} onOpenChange={setDialogOpen} onSubmit={handleCreate} />
+    </Card>
+  );
+};
+
+export default InvitationsPanel;
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/contexts/auth-context";
+import { useRoles } from "@/features/roles/role-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { getAllProjectsService } from "@/features/projects/project-service";
+import { canGrantProjectRole } from "@/features/permissions/policy";
+import { InvitationInput } from "@/types/invitation";
+import { Project } from "@/types/project";
+import { holdsEveryCapability } from "@/types/role";
+import { Loader2 } from "lucide-react";
+
+// Radix selects cannot use an empty string as an item value
+const NO_PROJECT = "none";
+const DEFAULT_ROLE = "Viewer";
+
+interface InviteUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: InvitationInput) => Promise<void>;
+}
+
+const InviteUserDialog: React.FC<InviteUserDialogProps> = ({ open, onOpenChange, onSubmit }) => {
+  const { user } = useAuth();
+  const { roles } = useRoles();
+  const { activeOrganization } = useOrganizations();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState(DEFAULT_ROLE);
+  const [projectId, setProjectId] = useState(NO_PROJECT);
+  const [projectRole, setProjectRole] = useState(DEFAULT_ROLE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setEmail("");
+      setRole(DEFAULT_ROLE);
+      setProjectId(NO_PROJECT);
+      setProjectRole(DEFAULT_ROLE);
+    }
+  }, [open]);
+
+  // Invitees can be added to any project in the active organization
+  useEffect(() => {
+    if (!open || !activeOrganization) return;
+
+    let isMounted = true;
+    getAllProjectsService(activeOrganization.id).then(fetchedProjects => {
+      if (isMounted) setProjects(fetchedProjects);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, activeOrganization]);
+
+  // Roles with capabilities the inviter lacks are refused by the database
+  const selectedProject = projects.find(project => project.id === projectId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        email: email.trim(),
+        role,
+        ...(projectId !== NO_PROJECT && { projectId, projectRole }),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // useInvitations already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Invite user</DialogTitle>
+            <DialogDescription>
+              The invitation link is valid for 7 days and can be used once. Whoever signs up with it gets the role below.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              required
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={setRole} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((r) => (
+                  <SelectItem key={r.name} value={r.name} disabled={!holdsEveryCapability(user, r)}>
+                    {r.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Project (optional)</Label>
+              <Select value={projectId} onValueChange={setProjectId} disabled={isSaving}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Project role</Label>
+              <Select
+                value={projectRole}
+                onValueChange={setProjectRole}
+                disabled={isSaving || projectId === NO_PROJECT}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((r) => (
+                    <SelectItem
+                      key={r.name}
+                      value={r.name}
+                      disabled={!!selectedProject && !canGrantProjectRole(user, selectedProject, r)}
+                    >
+                      {r.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !email.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create invitation
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteUserDialog;
@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { useRegistrationSettings } from "@/features/registration/use-registration-settings";
+import { useRoles } from "@/features/roles/role-context";
+import { REGISTRATION_MODES, RegistrationDomain, RegistrationMode } from "@/types/registration";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, Globe, Plus, Trash2 } from "lucide-react";
+
+// Radix selects cannot use an empty string as an item value
+const NO_DEFAULT_ROLE = "none";
+
+const RegistrationPolicyPanel: React.FC = () => {
+  const { roles } = useRoles();
+  const { settings, isLoading, updateMode, addDomain, updateDomain, removeDomain } = useRegistrationSettings();
+  const [newDomain, setNewDomain] = useState("");
+  const [newDomainRole, setNewDomainRole] = useState(NO_DEFAULT_ROLE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toRole = (value: string) => value === NO_DEFAULT_ROLE ? null : value;
+
+  // The hook already reported any error, so every action only tracks progress
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddDomain = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newDomain.trim()) return;
+
+    if (await run(() => addDomain(newDomain, toRole(newDomainRole)))) {
+      setNewDomain("");
+      setNewDomainRole(NO_DEFAULT_ROLE);
+    }
+  };
+
+  const roleSelectItems = (
+    <>
+      <SelectItem value={NO_DEFAULT_ROLE}>Viewer (default)</SelectItem>
+      {roles.map((role) => (
+        <SelectItem key={role.name} value={role.name}>
+          {role.name}
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Globe className="h-5 w-5 text-primary" />
+          <CardTitle>Registration</CardTitle>
+        </div>
+        <CardDescription>
+          Decide who can create an account. Invitation links work in every mode.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !settings ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full mb-2" />
+          ))
+        ) : (
+          <>
+            <RadioGroup
+              value={settings.mode}
+              onValueChange={(value) => run(() => updateMode(value as RegistrationMode))}
+              disabled={isSaving}
+              className="space-y-2"
+            >
+              {REGISTRATION_MODES.map((mode) => (
+                <div key={mode.id} className="flex items-start gap-3">
+                  <RadioGroupItem value={mode.id} id={`registration-${mode.id}`} className="mt-1" />
+                  <Label htmlFor={`registration-${mode.id}`} className="font-normal">
+                    <span className="font-medium">{mode.label}</span>
+                    <span className="block text-sm text-muted-foreground">{mode.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {settings.mode === "domain_allowlist" && settings.domains.length === 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  No domains are allowlisted, so only invited people can register.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-medium">Allowlisted domains</h3>
+                <p className="text-sm text-muted-foreground">
+                  New users from a domain get its default role. The list only restricts sign-up in the allowlisted domains mode.
+                </p>
+              </div>
+
+              {settings.domains.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Domain</TableHead>
+                      <TableHead>Default role</TableHead>
+                      <TableHead className="w-[60px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {settings.domains.map((domain: RegistrationDomain) => (
+                      <TableRow key={domain.domain}>
+                        <TableCell className="font-medium">@{domain.domain}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={domain.defaultRole ?? NO_DEFAULT_ROLE}
+                            onValueChange={(value) => run(() => updateDomain(domain, toRole(value)))}
+                            disabled={isSaving}
+                          >
+                            <SelectTrigger className="w-[200px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>{roleSelectItems}</SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={`Remove ${domain.domain}`}
+                            onClick={() => run(() => removeDomain(domain))}
+                            disabled={isSaving}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <form onSubmit={handleAddDomain} className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={newDomain}
+                  onChange={(e) => setNewDomain(e.target.value)}
+                  placeholder="example.com"
+                  disabled={isSaving}
+                  className="sm:max-w-xs"
+                />
+                <Select value={newDomainRole} onValueChange={setNewDomainRole} disabled={isSaving}>
+                  <SelectTrigger className="sm:w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>{roleSelectItems}</SelectContent>
+                </Select>
+                <Button type="submit" variant="outline" disabled={isSaving || !newDomain.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add domain
+                </Button>
+              </form>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RegistrationPolicyPanel;
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from "react";
+import { TemporaryRoleGrant, User, UserRole } from "@/types/auth";
+import { Role } from "@/types/role";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Clock, Timer, XCircle } from "lucide-react";
+import GrantTemporaryRoleDialog from "./GrantTemporaryRoleDialog";
+
+// e.g. "1h 05m" or "4m 09s"
+const formatRemaining = (ms: number): string => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${minutes}m ${pad(seconds)}s`;
+};
+
+interface TemporaryRolesPanelProps {
+  grants: TemporaryRoleGrant[];
+  isLoading: boolean;
+  // Users whose role the current user may change
+  users: User[];
+  canGrant: (role: Role) => boolean;
+  onGrant: (user: User, role: UserRole, expiresAt: string) => Promise<unknown>;
+  onRevoke: (grant: TemporaryRoleGrant) => Promise<void>;
+}
+
+const TemporaryRolesPanel: React.FC<TemporaryRolesPanelProps> = ({
+  grants,
+  isLoading,
+  users,
+  canGrant,
+  onGrant,
+  onRevoke,
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  // Drives the countdowns and drops grants as they expire
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const activeGrants = grants.filter(g => new Date(g.expiresAt).getTime() > now);
+
+  const handleGrant = async (user: User, role: UserRole, expiresAt: string) => {
+    await onGrant(user, role, expiresAt);
+  };
+
+  const handleRevoke = async (grant: TemporaryRoleGrant) => {
+    try {
+      await onRevoke(grant);
+    } catch (error) {
+      // useRoleGrants already reported the error
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Timer className="h-5 w-5 text-primary" />
+            <CardTitle>Temporary Roles</CardTitle>
+          </div>
+          <Button size="sm" onClick={() => setDialogOpen(true)} disabled={users.length === 0}>
+            <Clock className="h-4 w-4 mr-2" />
+            Grant temporary role
+          </Button>
+        </div>
+        <CardDescription>
+          Roles that end on their own, e.g. Admin for an hour to fix something
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          Array.from({ length: 2 }).map((_, i) => (
+            <Skeleton key={i} className="h-12 w-full mb-2" />
+          ))
+        ) : activeGrants.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Temporary role</TableHead>
+                <TableHead>Granted by</TableHead>
+                <TableHead>Ends</TableHead>
+                <TableHead className="w-[120px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeGrants.map((grant) => (
+                <TableRow key={grant.id}>
+                  <TableCell className="font-medium">{grant.userName}</TableCell>
+                  <TableCell>{grant.role}</TableCell>
+                  <TableCell>{grant.grantedByName}</TableCell>
+                  <TableCell>
+                    <div className="font-mono tabular-nums">{formatRemaining(new Date(grant.expiresAt).getTime() - now)}</div>
+                    <div className="text-xs text-muted-foreground whitespace-nowrap">
+                      {new Date(grant.expiresAt).toLocaleString()}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Revoke
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Revoke temporary role</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {grant.userName} loses the {grant.role} role now and goes back to their own role.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRevoke(grant)}>Revoke</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No temporary roles are active.</p>
+        )}
+      </CardContent>
+
+      <GrantTemporaryRoleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        users={users}
+        canGrant={canGrant}
+        onSubmit={handleGrant}
+      />
+    </Card>
+  );
+};
+
+export default TemporaryRolesPanel;
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useUserBulkActions } from "@/features/users/use-user-bulk-actions";
+import { User } from "@/types/auth";
+import { USER_IMPORT_ACTION_LABELS, USER_IMPORT_COLUMNS, UserImportAction, UserImportPlanItem, UserImportResult } from "@/types/user-import";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+const ACTION_VARIANTS: Record<UserImportAction, "default" | "secondary" | "outline" | "destructive"> = {
+  invite: "default",
+  update: "secondary",
+  unchanged: "outline",
+  conflict: "destructive",
+};
+
+interface UserImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  users: User[];
+  onImported: (result: UserImportResult) => void;
+}
+
+const UserImportDialog: React.FC<UserImportDialogProps> = ({ open, onOpenChange, users, onImported }) => {
+  const { previewImport, applyImport } = useUserBulkActions();
+  const [text, setText] = useState("");
+  const [plan, setPlan] = useState<UserImportPlanItem[] | null>(null);
+  const [result, setResult] = useState<UserImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setText("");
+      setPlan(null);
+      setResult(null);
+    }
+  }, [open]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setText(await file.text());
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    try {
+      setPlan(await previewImport(text, users));
+    } catch (error) {
+      // The bulk actions hook already reported the error
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsWorking(true);
+    try {
+      const applied = await applyImport(plan);
+      onImported(applied);
+      if (applied.failed.length > 0) {
+        setResult(applied);
+      } else {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      // The bulk actions hook already reported the error
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const countOf = (action: UserImportAction) => plan?.filter(item => item.action === action).length ?? 0;
+  const changeCount = countOf("invite") + countOf("update");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import users</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with the columns {USER_IMPORT_COLUMNS.join(", ")}. New email addresses are invited with
+            the given role; existing accounts get the role but keep their own name.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <p>These rows could not be imported:</p>
+              <ul className="list-disc pl-5 mt-1 max-h-[200px] overflow-auto">
+                {result.failed.map(({ row, error }) => (
+                  <li key={row.line}>Line {row.line} ({row.email}): {error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        ) : plan ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(USER_IMPORT_ACTION_LABELS) as UserImportAction[]).map((action) => (
+                <Badge key={action} variant={ACTION_VARIANTS[action]}>
+                  {USER_IMPORT_ACTION_LABELS[action]}: {countOf(action)}
+                </Badge>
+              ))}
+            </div>
+            <div className="max-h-[360px] overflow-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Line</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map(({ row, action, user, reason }) => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.email}</TableCell>
+                      <TableCell>{user?.name ?? row.name}</TableCell>
+                      <TableCell>
+                        {action === "update" ? `${user.role} → ${row.role}` : row.role}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[action]}>{USER_IMPORT_ACTION_LABELS[action]}</Badge>
+                        {reason && <p className="text-xs text-muted-foreground mt-1">{reason}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Nothing has been changed yet. Conflicting rows are left out when you apply the import.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV file</Label>
+              <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFile} disabled={isWorking} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-text">Or paste the contents</Label>
+              <Textarea
+                id="import-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={`${USER_IMPORT_COLUMNS.join(",")}\nAda Lovelace,ada@example.com,Editor`}
+                className="min-h-[160px] font-mono text-sm"
+                disabled={isWorking}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          ) : plan ? (
+            <>
+              <Button variant="outline" onClick={() => setPlan(null)} disabled={isWorking}>
+                Back
+              </Button>
+              <Button onClick={handleApply} disabled={isWorking || changeCount === 0}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Apply {changeCount} {changeCount === 1 ? "change" : "changes"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isWorking}>
+                Cancel
+              </Button>
+              <Button onClick={handlePreview} disabled={isWorking || !text.trim()}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Preview
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserImportDialog;
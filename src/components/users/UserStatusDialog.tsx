@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { User } from "@/types/auth";
+import { Loader2 } from "lucide-react";
+
+interface UserStatusDialogProps {
+  // The user being suspended or deactivated, or null when the dialog is closed
+  user: User | null;
+  status: "suspended" | "deactivated";
+  // Candidates to take over a deactivated user's projects
+  users: User[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (newOwnerId?: string) => Promise<void>;
+}
+
+const UserStatusDialog: React.FC<UserStatusDialogProps> = ({ user, status, users, onOpenChange, onConfirm }) => {
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDeactivating = status === "deactivated";
+  const candidates = users.filter(u => u.id !== user?.id && u.status === "active");
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (user) setNewOwnerId("");
+  }, [user]);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(isDeactivating ? newOwnerId : undefined);
+      onOpenChange(false);
+    } catch (error) {
+      // setUserStatus already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isDeactivating ? "Deactivate" : "Suspend"} {user?.name}</DialogTitle>
+          <DialogDescription>
+            {isDeactivating
+              ? "Deactivate accounts of people who have left. They are signed out, lose access to all data, and their projects move to the user you choose."
+              : "Suspended users are signed out and cannot access any data until they are reactivated. Their projects stay theirs."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isDeactivating && (
+          <div className="space-y-2">
+            <Label>Transfer their projects to</Label>
+            <Select value={newOwnerId} onValueChange={setNewOwnerId} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={isSaving || (isDeactivating && !newOwnerId)}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isDeactivating ? "Deactivate" : "Suspend"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserStatusDialog;
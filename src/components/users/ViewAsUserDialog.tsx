@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { User } from "@/types/auth";
+import { Loader2 } from "lucide-react";
+
+interface ViewAsUserDialogProps {
+  // The user to view as; the dialog is open while it is set
+  user: User | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (user: User, reason: string) => Promise<void>;
+}
+
+const ViewAsUserDialog: React.FC<ViewAsUserDialogProps> = ({ user, onOpenChange, onConfirm }) => {
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (user) setReason("");
+  }, [user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !reason.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onConfirm(user, reason.trim());
+      onOpenChange(false);
+    } catch (error) {
+      // The auth context already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        {user && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>View as {user.name}</DialogTitle>
+              <DialogDescription>
+                The app shows what {user.name}'s roles allow for up to an hour. Nothing can be changed until you exit, and the session is recorded in the audit log.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="view-as-reason">Reason</Label>
+              <Textarea
+                id="view-as-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Reported they can't edit the Q3 roadmap"
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !reason.trim()}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                View as user
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ViewAsUserDialog;
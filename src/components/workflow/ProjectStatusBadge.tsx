@@ -0,0 +1,24 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { PROJECT_STATUS_CLASS_NAMES, PROJECT_STATUS_LABELS, ProjectStatus } from "@/types/workflow";
+
+interface ProjectStatusBadgeProps {
+  status: ProjectStatus;
+  className?: string;
+}
+
+const ProjectStatusBadge: React.FC<ProjectStatusBadgeProps> = ({ status, className }) => {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold whitespace-nowrap",
+        PROJECT_STATUS_CLASS_NAMES[status],
+        className
+      )}
+    >
+      {PROJECT_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+export default ProjectStatusBadge;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from "react";
+import { Project } from "@/types/project";
+import { ProjectStatusChange } from "@/types/workflow";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowRight, Workflow } from "lucide-react";
+import ProjectStatusBadge from "./ProjectStatusBadge";
+
+interface ProjectStatusHistoryProps {
+  project: Project;
+  getStatusChanges: (projectId: string) => Promise<ProjectStatusChange[]>;
+}
+
+const ProjectStatusHistory: React.FC<ProjectStatusHistoryProps> = ({ project, getStatusChanges }) => {
+  const [changes, setChanges] = useState<ProjectStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Reload after every move so the newest one shows up
+  useEffect(() => {
+    let isMounted = true;
+
+    setLoading(true);
+    getStatusChanges(project.id).then(fetchedChanges => {
+      if (isMounted) {
+        setChanges(fetchedChanges);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [project.id, project.status, getStatusChanges]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Workflow className="h-5 w-5 text-primary" />
+          <CardTitle>Status history</CardTitle>
+        </div>
+        <CardDescription>
+          Every move through the workflow, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full mb-2" />
+          ))
+        ) : changes.length > 0 ? (
+          <ol className="space-y-4">
+            {changes.map((change) => (
+              <li key={change.id} className="border-l-2 pl-4 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <ProjectStatusBadge status={change.fromStatus} />
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  <ProjectStatusBadge status={change.toStatus} />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {change.changedByName} · {new Date(change.changedAt).toLocaleString()}
+                </p>
+                {change.comment && (
+                  <p className="text-sm whitespace-pre-wrap">{change.comment}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This project has not moved through the workflow yet.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectStatusHistory;
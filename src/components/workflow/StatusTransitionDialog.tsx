@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { StatusTransition } from "@/types/workflow";
+import { ArrowRight, Loader2 } from "lucide-react";
+import ProjectStatusBadge from "./ProjectStatusBadge";
+
+interface StatusTransitionDialogProps {
+  // The move being confirmed; the dialog is open while it is set
+  transition: StatusTransition | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (transition: StatusTransition, comment: string) => Promise<void>;
+}
+
+const StatusTransitionDialog: React.FC<StatusTransitionDialogProps> = ({ transition, onOpenChange, onConfirm }) => {
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (transition) setComment("");
+  }, [transition]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transition) return;
+
+    setIsSaving(true);
+    try {
+      await onConfirm(transition, comment);
+      onOpenChange(false);
+    } catch (error) {
+      // The workflow hook already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!transition} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        {transition && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{transition.label}</DialogTitle>
+              <DialogDescription asChild>
+                <div className="flex items-center gap-2 pt-1">
+                  <ProjectStatusBadge status={transition.fromStatus} />
+                  <ArrowRight className="h-4 w-4" />
+                  <ProjectStatusBadge status={transition.toStatus} />
+                </div>
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="transition-comment">Comment (optional)</Label>
+              <Textarea
+                id="transition-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Kept in the project's status history"
+                disabled={isSaving}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {transition.label}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StatusTransitionDialog;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Capability, CAPABILITIES } from "@/types/role";
+import { PROJECT_STATUS_LABELS, PROJECT_STATUSES, ProjectStatus, StatusTransition, StatusTransitionInput } from "@/types/workflow";
+import { Loader2 } from "lucide-react";
+
+// Radix selects cannot use an empty string as an item value
+const ANY_EDITOR = "any-editor";
+
+interface TransitionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The transition being edited, or null when adding one
+  transition: StatusTransition | null;
+  onSubmit: (input: StatusTransitionInput) => Promise<void>;
+}
+
+const TransitionFormDialog: React.FC<TransitionFormDialogProps> = ({ open, onOpenChange, transition, onSubmit }) => {
+  const [fromStatus, setFromStatus] = useState<ProjectStatus>("draft");
+  const [toStatus, setToStatus] = useState<ProjectStatus>("in_review");
+  const [label, setLabel] = useState("");
+  const [capability, setCapability] = useState<Capability | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFromStatus(transition?.fromStatus ?? "draft");
+      setToStatus(transition?.toStatus ?? "in_review");
+      setLabel(transition?.label ?? "");
+      setCapability(transition?.capability ?? null);
+    }
+  }, [open, transition]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!label.trim() || fromStatus === toStatus) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit({ fromStatus, toStatus, label: label.trim(), capability });
+      onOpenChange(false);
+    } catch (error) {
+      // The workflow hook already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{transition ? `Edit ${transition.label}` : "Add transition"}</DialogTitle>
+            <DialogDescription>
+              A transition lets projects move from one status to another. Only users who can edit
+              a project can move it, and the transition may require a further capability.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select
+                value={fromStatus}
+                onValueChange={(value) => setFromStatus(value as ProjectStatus)}
+                disabled={isSaving || !!transition}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {PROJECT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select
+                value={toStatus}
+                onValueChange={(value) => setToStatus(value as ProjectStatus)}
+                disabled={isSaving || !!transition}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_STATUSES.filter(status => status !== fromStatus).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {PROJECT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transition-label">Button label</Label>
+            <Input
+              id="transition-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Approve"
+              required
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Required capability</Label>
+            <Select
+              value={capability ?? ANY_EDITOR}
+              onValueChange={(value) => setCapability(value === ANY_EDITOR ? null : value as Capability)}
+              disabled={isSaving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_EDITOR}>None, every editor of the project</SelectItem>
+                {CAPABILITIES.map((definition) => (
+                  <SelectItem key={definition.id} value={definition.id}>
+                    {definition.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !label.trim() || fromStatus === toStatus}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {transition ? "Save" : "Add"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransitionFormDialog;
@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { useRoles } from "@/features/roles/role-context";
+import { useWorkflow } from "@/features/workflow/use-workflow";
+import { CAPABILITIES } from "@/types/role";
+import { StatusTransition, StatusTransitionInput } from "@/types/workflow";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ArrowRight, Edit, Plus, Trash, Workflow } from "lucide-react";
+import ProjectStatusBadge from "./ProjectStatusBadge";
+import TransitionFormDialog from "./TransitionFormDialog";
+
+// The project status workflow, for users who manage roles
+const WorkflowPanel: React.FC = () => {
+  const { roles } = useRoles();
+  const { transitions, isLoading, saveTransition, deleteTransition } = useWorkflow();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTransition, setEditingTransition] = useState<StatusTransition | null>(null);
+
+  const openDialog = (transition: StatusTransition | null) => {
+    setEditingTransition(transition);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (input: StatusTransitionInput) => {
+    await saveTransition(input);
+  };
+
+  const handleDelete = async (transition: StatusTransition) => {
+    try {
+      await deleteTransition(transition);
+    } catch (error) {
+      // The workflow hook already reported the error
+    }
+  };
+
+  // Which roles can make the move, so the graph reads in terms of roles
+  const describeGate = (transition: StatusTransition) => {
+    if (!transition.capability) return "Every editor of the project";
+
+    const label = CAPABILITIES.find(c => c.id === transition.capability)?.label ?? transition.capability;
+    const roleNames = roles.filter(role => role.capabilities.includes(transition.capability)).map(role => role.name);
+    return `${label} (${roleNames.length > 0 ? roleNames.join(", ") : "no role yet"})`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Workflow className="h-5 w-5 text-primary" />
+            <CardTitle>Project workflow</CardTitle>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add transition
+          </Button>
+        </div>
+        <CardDescription>
+          The status changes projects can go through, and who may make each one
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full mb-2" />
+          ))
+        ) : transitions.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Transition</TableHead>
+                <TableHead>Button</TableHead>
+                <TableHead>Allowed for</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transitions.map((transition) => (
+                <TableRow key={`${transition.fromStatus}:${transition.toStatus}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <ProjectStatusBadge status={transition.fromStatus} />
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      <ProjectStatusBadge status={transition.toStatus} />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{transition.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeGate(transition)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(transition)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Remove {transition.label}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Projects will no longer be able to make this move. Their current status and
+                              history are kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(transition)}>Remove</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No transitions are configured, so every project stays in its current status.
+          </p>
+        )}
+      </CardContent>
+
+      <TransitionFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        transition={editingTransition}
+        onSubmit={handleSubmit}
+      />
+    </Card>
+  );
+};
+
+export default WorkflowPanel;
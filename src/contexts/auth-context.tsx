@@ -1,8 +1,16 @@
 
-import React, { createContext, useContext, useEffect, useState } from "react";
-import { AuthContextType, AuthState, LoginCredentials, SignupCredentials, User, UserRole } from "@/types/auth";
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { AuthContextType, AuthState, getInactiveAccountMessage, LoginCredentials, SignupCredentials, User, UserRole, UserStatus } from "@/types/auth";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { assertCan } from "@/features/permissions/policy";
+import { getRoleCapabilitiesService } from "@/features/roles/role-service";
+import { getUserProjectRolesService } from "@/features/projects/member-service";
+import { getUserOrganizationRolesService } from "@/features/organizations/organization-service";
+import { updateUserRoleService } from "@/features/users/user-service";
+import { getActiveRoleGrantsService } from "@/features/users/role-grant-service";
+import { endImpersonationService, getImpersonatedUserService, getOpenImpersonationService, startImpersonationService } from "@/features/impersonation/impersonation-service";
+import { ImpersonationSession } from "@/types/impersonation";
 
 const initialState: AuthState = {
   user: null,
@@ -17,13 +25,20 @@ export const AuthContext = createContext<AuthContextType>({
   signup: async () => {},
   logout: () => {},
   updateUser: () => {},
+  refreshUser: async () => {},
+  realUser: null,
+  impersonation: null,
+  startImpersonation: async () => {},
+  stopImpersonation: async () => {},
 });
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [state, setState] = useState<AuthState>(initialState);
+  // Another user's permissions an administrator is viewing the app with
+  const [impersonation, setImpersonation] = useState<{ session: ImpersonationSession; user: User } | null>(null);
 
   // Function to fetch user profile data
-  const fetchUserProfile = async (userId: string): Promise<User | null> => {
+  const fetchUserProfile = useCallback(async (userId: string): Promise<User | null> => {
     try {
       console.log(`Fetching profile for user: ${userId}`);
       // Add a timeout to the profile fetch to prevent hanging
@@ -54,17 +69,43 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       }
 
       console.log('Profile found:', data);
+      // An unexpired temporary grant replaces the user's own role
+      const [temporaryRole = null] = await getActiveRoleGrantsService(userId);
+      const [capabilities, projectRoles, orgRoles] = await Promise.all([
+        getRoleCapabilitiesService(temporaryRole?.role ?? data.role),
+        getUserProjectRolesService(userId),
+        getUserOrganizationRolesService(userId),
+      ]);
+
       return {
         id: data.id,
         email: '', // Will be populated from auth.user
         name: data.name,
         role: data.role as UserRole,
+        status: data.status as UserStatus,
+        capabilities,
+        temporaryRole,
+        projectRoles,
+        orgRoles,
         createdAt: data.created_at,
       };
     } catch (error) {
       console.error('Error in fetchUserProfile:', error);
       return null;
     }
+  }, []);
+
+  // Signs out a session whose account has been suspended or deactivated
+  const endInactiveSession = async (status: UserStatus, notify: boolean) => {
+    console.warn(`Signing out ${status} account`);
+    if (notify) {
+      toast.error(getInactiveAccountMessage(status));
+    }
+    await supabase.auth.signOut();
+    setState({
+      ...initialState,
+      isLoading: false,
+    });
   };
 
   // Check for existing session on component mount
@@ -118,6 +159,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             
             if (!isMounted) return;
             
+            if (profile && profile.status !== 'active') {
+              await endInactiveSession(profile.status, true);
+              return;
+            }
+            
             if (profile) {
               const user: User = {
                 ...profile,
@@ -138,6 +184,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 email: authUser.email || '',
                 name: authUser.email?.split('@')[0] || 'User',
                 role: 'Viewer',
+                status: 'active',
+                capabilities: [], // Unknown until the profile can be loaded
                 createdAt: new Date().toISOString(),
               };
               
@@ -157,7 +205,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 id: authUser.id,
                 email: authUser.email || '',
                 name: authUser.email?.split('@')[0] || 'User',
-                role: 'Viewer', 
+                role: 'Viewer',
+                status: 'active',
+                capabilities: [], // Unknown until the profile can be loaded
                 createdAt: new Date().toISOString(),
               };
               
@@ -214,6 +264,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             
             if (!isMounted) return;
             
+            // login() has already told the user why they cannot sign in
+            if (profile && profile.status !== 'active') {
+              await endInactiveSession(profile.status, false);
+              return;
+            }
+            
             if (profile) {
               const user: User = {
                 ...profile,
@@ -233,6 +289,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 email: authUser.email || '',
                 name: authUser.email?.split('@')[0] || 'User',
                 role: 'Viewer',
+                status: 'active',
+                capabilities: [], // Unknown until the profile can be loaded
                 createdAt: new Date().toISOString(),
               };
               
@@ -253,6 +311,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 email: authUser.email || '',
                 name: authUser.email?.split('@')[0] || 'User',
                 role: 'Viewer',
+                status: 'active',
+                capabilities: [], // Unknown until the profile can be loaded
                 createdAt: new Date().toISOString(),
               };
               
@@ -281,7 +341,33 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       window.clearTimeout(timeoutId);
       subscription.unsubscribe();
     };
-  }, []);
+  }, [fetchUserProfile]);
+
+  // Ends the session as soon as an administrator suspends or deactivates the account
+  const userId = state.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`profile-status:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `id=eq.${userId}` },
+        (payload) => {
+          const status = (payload.new as { status?: UserStatus }).status;
+          // The SIGNED_OUT listener clears the session state
+          if (status && status !== 'active') {
+            toast.error(getInactiveAccountMessage(status));
+            supabase.auth.signOut();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
 
   const login = async (credentials: LoginCredentials) => {
     setState(prev => ({ ...prev, isLoading: true }));
@@ -294,6 +380,18 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       
       if (error) throw error;
       
+      // Suspended users can still authenticate, so turn them away here
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('status')
+        .eq('id', data.user.id)
+        .maybeSingle();
+      
+      if (profile && profile.status !== 'active') {
+        await supabase.auth.signOut();
+        throw new Error(getInactiveAccountMessage(profile.status as UserStatus));
+      }
+      
       // Auth state listener will handle state update
       toast.success("Logged in successfully");
     } catch (error: any) {
@@ -316,6 +414,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         options: {
           data: {
             name: credentials.name,
+            invite_token: credentials.inviteToken,
           },
           emailRedirectTo: `${window.location.origin}/login`,
         },
@@ -337,6 +436,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const logout = async () => {
     try {
+      // Best effort: an open session would otherwise keep writes blocked until it expires
+      if (impersonation) {
+        await endImpersonationService().catch(() => {});
+        setImpersonation(null);
+      }
+
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
       
@@ -360,13 +465,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
 
     try {
-      // Update the profile in Supabase
+      // Only the name: roles change through updateUserRole, which the database checks
       const { error } = await supabase
         .from('profiles')
-        .update({ 
-          name: updatedUser.name,
-          role: updatedUser.role 
-        })
+        .update({ name: updatedUser.name })
         .eq('id', updatedUser.id);
 
       if (error) throw error;
@@ -374,7 +476,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       // Update local state
       setState(prev => ({
         ...prev,
-        user: updatedUser,
+        user: { ...updatedUser, role: prev.user?.role ?? updatedUser.role },
       }));
       
       toast.success("User profile updated successfully");
@@ -384,14 +486,144 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  // Re-resolves the signed-in user's roles, e.g. after a membership change
+  const refreshUser = useCallback(async () => {
+    if (!userId) return;
+
+    const profile = await fetchUserProfile(userId);
+    if (!profile) return;
+
+    setState(prev => prev.user ? {
+      ...prev,
+      user: { ...profile, email: prev.user.email },
+    } : prev);
+  }, [userId, fetchUserProfile]);
+
+  // Drops a temporary role the moment it expires
+  const temporaryRoleExpiresAt = state.user?.temporaryRole?.expiresAt;
+  useEffect(() => {
+    if (!temporaryRoleExpiresAt) return;
+
+    // Browsers fire timeouts longer than about 24 days immediately
+    const delay = Math.min(new Date(temporaryRoleExpiresAt).getTime() - Date.now(), 2 ** 31 - 1);
+    const timeoutId = window.setTimeout(() => {
+      refreshUser();
+    }, Math.max(delay, 0));
+
+    return () => window.clearTimeout(timeoutId);
+  }, [temporaryRoleExpiresAt, refreshUser]);
+
+  // Resolves the target's permissions the same way as for a signed-in user
+  const loadImpersonation = useCallback(async (session: ImpersonationSession, adminName: string): Promise<boolean> => {
+    // Resolved by the database, which can read the target's own memberships
+    const target = await getImpersonatedUserService();
+    if (!target || target.id !== session.targetId) return false;
+
+    setImpersonation({
+      session,
+      user: { ...target, impersonatedBy: { id: session.adminId, name: adminName } },
+    });
+    return true;
+  }, []);
+
+  const startImpersonation = async (target: User, reason: string) => {
+    try {
+      assertCan(state.user, "user:impersonate", target);
+
+      const session = await startImpersonationService(target, reason);
+      if (!(await loadImpersonation(session, state.user.name))) {
+        await endImpersonationService();
+        throw new Error(`Failed to load the permissions of ${target.name}`);
+      }
+      toast.success(`Viewing the app as ${target.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to view the app as this user");
+      throw error;
+    }
+  };
+
+  const stopImpersonation = async () => {
+    if (!impersonation) return;
+
+    try {
+      await endImpersonationService();
+      setImpersonation(null);
+      toast.success(`Stopped viewing as ${impersonation.session.targetName}`);
+    } catch (error) {
+      // The database keeps refusing writes until the session expires
+      toast.error("Failed to end the session");
+      throw error;
+    }
+  };
+
+  // Picks up a session left open by a reload, and drops it on sign-out
+  const userName = state.user?.name;
+  useEffect(() => {
+    if (!userId) {
+      setImpersonation(null);
+      return;
+    }
+
+    let isMounted = true;
+    getOpenImpersonationService(userId).then(session => {
+      if (isMounted && session) {
+        loadImpersonation(session, userName);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, userName, loadImpersonation]);
+
+  // Sessions end on their own after an hour
+  const impersonationExpiresAt = impersonation?.session.expiresAt;
+  useEffect(() => {
+    if (!impersonationExpiresAt) return;
+
+    const delay = new Date(impersonationExpiresAt).getTime() - Date.now();
+    const timeoutId = window.setTimeout(() => {
+      setImpersonation(null);
+      toast.info("Your view-as session expired");
+    }, Math.max(delay, 0));
+
+    return () => window.clearTimeout(timeoutId);
+  }, [impersonationExpiresAt]);
+
+  // Picks up temporary roles granted or revoked while the user is signed in
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`temporary-roles:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'temporary_role_grants', filter: `user_id=eq.${userId}` },
+        () => {
+          refreshUser();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refreshUser]);
+
   return (
     <AuthContext.Provider
       value={{
         ...state,
+        user: impersonation?.user ?? state.user,
         login,
         signup,
         logout,
         updateUser,
+        refreshUser,
+        realUser: state.user,
+        impersonation: impersonation?.session ?? null,
+        startImpersonation,
+        stopImpersonation,
       }}
     >
       {children}
@@ -416,6 +648,8 @@ export const getAllUsers = async (): Promise<User[]> => {
       email: '', // Empty email for now
       name: profile.name,
       role: profile.role as UserRole,
+      status: profile.status as UserStatus,
+      capabilities: [], // Only resolved for the signed-in user
       createdAt: profile.created_at,
     }));
 
@@ -427,31 +661,42 @@ export const getAllUsers = async (): Promise<User[]> => {
   }
 };
 
+// The client check only hides what cannot succeed; change_user_role enforces
+// it and rejects with a RoleChangeError the caller should show
 export const updateUserRole = async (userId: string, newRole: UserRole, currentUser: User): Promise<User> => {
-  if (currentUser.role !== "Admin") {
-    throw new Error("Only admins can update user roles");
-  }
+  assertCan(currentUser, "user:change-role", { id: userId });
   
   try {
-    const { data, error } = await supabase
-      .from('profiles')
-      .update({ role: newRole })
-      .eq('id', userId)
-      .select()
-      .single();
+    return await updateUserRoleService(userId, newRole);
+  } catch (error) {
+    console.error("Failed to update user role:", error);
+    throw error;
+  }
+};
+
+// Suspends, deactivates or reactivates another user. Deactivating hands their
+// projects to newOwnerId. Returns the number of projects transferred.
+export const setUserStatus = async (
+  user: User,
+  status: UserStatus,
+  currentUser: User,
+  newOwnerId?: string
+): Promise<number> => {
+  assertCan(currentUser, "user:change-status", { id: user.id });
+
+  try {
+    const { data: transferred, error } = await supabase.rpc('set_user_status', {
+      p_user_id: user.id,
+      p_status: status,
+      p_new_owner_id: status === 'deactivated' ? newOwnerId ?? null : null,
+    });
 
     if (error) throw error;
-    
-    return {
-      id: data.id,
-      email: '', // We don't have this in the response
-      name: data.name,
-      role: data.role as UserRole,
-      createdAt: data.created_at,
-    };
+
+    return transferred;
   } catch (error) {
-    console.error("Failed to update user role:", error);
-    toast.error("Failed to update user role");
+    console.error("Failed to change user status:", error);
+    toast.error(error.message || "Failed to change user status");
     throw error;
   }
 };
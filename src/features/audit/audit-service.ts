@@ -0,0 +1,107 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AuditAction, AuditEvent, AuditEventPage, AuditFilters, AuditTargetType } from "@/types/audit";
+import { getProfileNamesService } from "@/features/projects/member-service";
+
+// Events are written by triggers in the database (see DATABASE_SETUP.md), so
+// this module only reads them.
+
+// Number of events shown per page of the audit log
+export const AUDIT_PAGE_SIZE = 50;
+
+// PostgREST returns at most this many rows per request
+const AUDIT_EXPORT_BATCH_SIZE = 1000;
+
+// Helper function to format an audit event from the database
+export const formatAuditEvent = (data: Tables<'audit_events'>, actorName: string): AuditEvent => {
+  return {
+    id: data.id,
+    actorId: data.actor_id,
+    actorName,
+    action: data.action as AuditAction,
+    targetType: data.target_type as AuditTargetType,
+    targetId: data.target_id,
+    targetLabel: data.target_label,
+    before: data.before,
+    after: data.after,
+    userAgent: data.user_agent,
+    createdAt: data.created_at
+  };
+};
+
+// `until` caps the results at a moment in time so batched reads stay stable
+const queryAuditEvents = (filters: AuditFilters, options: { count?: 'exact'; until?: string } = {}) => {
+  let query = supabase
+    .from('audit_events')
+    .select('*', { count: options.count });
+
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.action) query = query.eq('action', filters.action);
+  // Date filters cover whole days in the viewer's local time zone
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (options.until) query = query.lte('created_at', options.until);
+
+  // Order by id as well so events with the same timestamp never move between pages
+  return query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true });
+};
+
+const withActorNames = async (rows: Tables<'audit_events'>[]): Promise<AuditEvent[]> => {
+  const actorIds = [...new Set(rows.map(event => event.actor_id).filter(Boolean))];
+  const names = await getProfileNamesService(actorIds);
+
+  return rows.map(event => formatAuditEvent(
+    event,
+    event.actor_id ? names[event.actor_id] || 'Unknown user' : 'System'
+  ));
+};
+
+export const getAuditEventsPageService = async (filters: AuditFilters, page: number): Promise<AuditEventPage> => {
+  try {
+    const offset = (page - 1) * AUDIT_PAGE_SIZE;
+    const { data, error, count } = await queryAuditEvents(filters, { count: 'exact' })
+      .range(offset, offset + AUDIT_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching audit events:", error);
+      throw error;
+    }
+
+    return { events: await withActorNames(data), total: count ?? 0 };
+  } catch (error) {
+    console.error("Exception in getAuditEventsPageService:", error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches every event matching the filters, for exports. Events recorded
+ * after the export starts are left out so they cannot shift the batches.
+ */
+export const getAllAuditEventsService = async (filters: AuditFilters): Promise<AuditEvent[]> => {
+  try {
+    const startedAt = new Date().toISOString();
+    const rows: Tables<'audit_events'>[] = [];
+    let batchSize = 0;
+
+    do {
+      const { data, error } = await queryAuditEvents(filters, { until: startedAt })
+        .range(rows.length, rows.length + AUDIT_EXPORT_BATCH_SIZE - 1);
+
+      if (error) {
+        console.error("Error fetching audit events:", error);
+        throw error;
+      }
+
+      rows.push(...data);
+      batchSize = data.length;
+    } while (batchSize === AUDIT_EXPORT_BATCH_SIZE);
+
+    return withActorNames(rows);
+  } catch (error) {
+    console.error("Exception in getAllAuditEventsService:", error);
+    throw error;
+  }
+};
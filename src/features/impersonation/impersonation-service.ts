@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { RoleGrant, User, UserRole, UserStatus } from "@/types/auth";
+import { Capability } from "@/types/role";
+import { ImpersonationSession } from "@/types/impersonation";
+import { getProfileNamesService } from "@/features/projects/member-service";
+import { formatTemporaryRoleGrant } from "@/features/users/role-grant-service";
+import { toRoleChangeError } from "@/features/users/errors";
+
+// Helper function to format an impersonation session from the database
+export const formatImpersonationSession = (
+  data: Tables<'impersonation_sessions'>,
+  targetName: string
+): ImpersonationSession => {
+  return {
+    id: data.id,
+    adminId: data.admin_id,
+    targetId: data.target_id,
+    targetName,
+    reason: data.reason,
+    startedAt: data.started_at,
+    expiresAt: data.expires_at,
+    endedAt: data.ended_at
+  };
+};
+
+// Project and organization roles as get_impersonated_profile returns them, keyed by id
+const formatRoleGrants = (grants: Record<string, { role: string; capabilities: string[] }>): Record<string, RoleGrant> => {
+  return Object.fromEntries(Object.entries(grants).map(([id, grant]) => [id, {
+    role: grant.role as UserRole,
+    capabilities: grant.capabilities as Capability[],
+  }]));
+};
+
+// The session the administrator left open, e.g. before reloading the page
+export const getOpenImpersonationService = async (adminId: string): Promise<ImpersonationSession | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('impersonation_sessions')
+      .select('*')
+      .eq('admin_id', adminId)
+      .is('ended_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching impersonation session:", error);
+      throw error;
+    }
+
+    if (!data) return null;
+
+    const names = await getProfileNamesService([data.target_id]);
+    return formatImpersonationSession(data, names[data.target_id] || 'Unknown user');
+  } catch (error) {
+    console.error("Exception in getOpenImpersonationService:", error);
+    return null;
+  }
+};
+
+export const startImpersonationService = async (target: User, reason: string): Promise<ImpersonationSession> => {
+  try {
+    const { data, error } = await supabase.rpc('start_impersonation', {
+      p_target_id: target.id,
+      p_reason: reason
+    });
+
+    if (error) {
+      console.error("Error starting impersonation:", error);
+      throw toRoleChangeError(error);
+    }
+
+    return formatImpersonationSession(data, target.name);
+  } catch (error) {
+    console.error("Exception in startImpersonationService:", error);
+    throw error;
+  }
+};
+
+export const endImpersonationService = async (): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('end_impersonation');
+
+    if (error) {
+      console.error("Error ending impersonation:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in endImpersonationService:", error);
+    throw error;
+  }
+};
+
+/**
+ * The user the administrator is viewing as, with that user's own roles.
+ * They are resolved by the database because the administrator's access
+ * does not cover the user's memberships and grants outside shared scopes.
+ */
+export const getImpersonatedUserService = async (): Promise<User | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_impersonated_profile');
+
+    if (error) {
+      console.error("Error fetching impersonated user:", error);
+      throw error;
+    }
+
+    if (!data) return null;
+
+    const { profile, temporary_role, capabilities, project_roles, org_roles } = data;
+    const names = temporary_role
+      ? await getProfileNamesService([temporary_role.user_id, temporary_role.granted_by].filter(Boolean))
+      : {};
+
+    return {
+      id: profile.id,
+      email: '',
+      name: profile.name,
+      role: profile.role as UserRole,
+      status: profile.status as UserStatus,
+      capabilities: capabilities as Capability[],
+      temporaryRole: temporary_role ? formatTemporaryRoleGrant(temporary_role, names) : null,
+      projectRoles: formatRoleGrants(project_roles),
+      orgRoles: formatRoleGrants(org_roles),
+      createdAt: profile.created_at,
+    };
+  } catch (error) {
+    console.error("Exception in getImpersonatedUserService:", error);
+    return null;
+  }
+};
@@ -0,0 +1,184 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { UserRole } from "@/types/auth";
+import { getInvitationStatus, Invitation, InvitationInput, InvitationPreview, InvitationStatus } from "@/types/invitation";
+import { getProfileNamesService } from "@/features/projects/member-service";
+
+// Helper function to format an invitation from the database
+export const formatInvitation = (
+  data: Tables<'invitations'>,
+  invitedByName: string,
+  projectTitle: string | null
+): Invitation => {
+  const invitation = {
+    id: data.id,
+    email: data.email,
+    name: data.name,
+    role: data.role as UserRole,
+    projectId: data.project_id,
+    projectRole: data.project_role as UserRole | null,
+    projectTitle,
+    token: data.token,
+    invitedBy: data.invited_by,
+    invitedByName,
+    createdAt: data.created_at,
+    expiresAt: data.expires_at,
+    acceptedAt: data.accepted_at,
+    revokedAt: data.revoked_at
+  };
+
+  return { ...invitation, status: getInvitationStatus(invitation) };
+};
+
+// Invitations can only point at projects the viewer can see, so missing titles stay null
+const getProjectTitlesService = async (projectIds: string[]): Promise<Record<string, string>> => {
+  if (projectIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, title')
+    .in('id', projectIds);
+
+  if (error) {
+    console.error("Error fetching project titles:", error);
+    return {};
+  }
+
+  const titles: Record<string, string> = {};
+  data.forEach(project => {
+    titles[project.id] = project.title;
+  });
+  return titles;
+};
+
+const formatInvitations = async (rows: Tables<'invitations'>[]): Promise<Invitation[]> => {
+  const [names, titles] = await Promise.all([
+    getProfileNamesService([...new Set(rows.map(row => row.invited_by))]),
+    getProjectTitlesService([...new Set(rows.map(row => row.project_id).filter(Boolean))])
+  ]);
+
+  return rows.map(row => formatInvitation(
+    row,
+    names[row.invited_by] || 'Unknown user',
+    row.project_id ? titles[row.project_id] ?? null : null
+  ));
+};
+
+export const getInvitationsService = async (): Promise<Invitation[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('invitations')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching invitations:", error);
+      throw error;
+    }
+
+    return await formatInvitations(data);
+  } catch (error) {
+    console.error("Exception in getInvitationsService:", error);
+    throw error;
+  }
+};
+
+export const createInvitationService = async (input: InvitationInput): Promise<Invitation> => {
+  try {
+    console.log(`Inviting ${input.email} as ${input.role}`);
+    const { data, error } = await supabase
+      .from('invitations')
+      .insert({
+        email: input.email.trim().toLowerCase(),
+        name: input.name?.trim() || null,
+        role: input.role,
+        project_id: input.projectId ?? null,
+        project_role: input.projectId ? input.projectRole : null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating invitation:", error);
+      throw error;
+    }
+
+    const [invitation] = await formatInvitations([data]);
+    return invitation;
+  } catch (error) {
+    console.error("Exception in createInvitationService:", error);
+    throw error;
+  }
+};
+
+// Issues a new token and expiry, which invalidates any link sent earlier
+// The database issues the new token and expiry, so neither can be chosen by the caller
+export const resendInvitationService = async (invitation: Invitation): Promise<Invitation> => {
+  try {
+    const { data, error } = await supabase.rpc('resend_invitation', { p_invitation_id: invitation.id });
+
+    if (error) {
+      console.error("Error resending invitation:", error);
+      throw error;
+    }
+
+    const [resent] = await formatInvitations([data]);
+    return resent;
+  } catch (error) {
+    console.error("Exception in resendInvitationService:", error);
+    throw error;
+  }
+};
+
+export const revokeInvitationService = async (invitation: Invitation): Promise<Invitation> => {
+  try {
+    const { data, error } = await supabase
+      .from('invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitation.id)
+      .is('accepted_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error revoking invitation:", error);
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error("This invitation has already been accepted");
+    }
+
+    const [revoked] = await formatInvitations([data]);
+    return revoked;
+  } catch (error) {
+    console.error("Exception in revokeInvitationService:", error);
+    throw error;
+  }
+};
+
+// Readable without signing in; only someone holding the token can look it up
+export const getInvitationPreviewService = async (token: string): Promise<InvitationPreview | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_invitation', { p_token: token });
+
+    if (error) {
+      console.error("Error fetching invitation:", error);
+      throw error;
+    }
+
+    const row = data?.[0];
+    if (!row) return null;
+
+    return {
+      email: row.email,
+      name: row.name,
+      role: row.role as UserRole,
+      projectTitle: row.project_title,
+      status: row.status as InvitationStatus
+    };
+  } catch (error) {
+    console.error("Exception in getInvitationPreviewService:", error);
+    return null;
+  }
+};
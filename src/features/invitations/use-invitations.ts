@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { assertCan, can } from "@/features/permissions/policy";
+import { Invitation, InvitationInput } from "@/types/invitation";
+import {
+  createInvitationService,
+  getInvitationsService,
+  resendInvitationService,
+  revokeInvitationService,
+} from "./invitation-service";
+
+const reportError = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    toast.error(error.message);
+  } else {
+    toast.error(fallback);
+  }
+};
+
+/**
+ * Loads every invitation for user managers and exposes the actions on them.
+ * Returned invitations replace the stale copy in place.
+ */
+export const useInvitations = () => {
+  const { user } = useAuth();
+  const canInvite = can(user, "user:invite");
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshInvitations = useCallback(async () => {
+    if (!canInvite) {
+      setInvitations([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setInvitations(await getInvitationsService());
+    } catch (error) {
+      toast.error("Failed to load invitations");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canInvite]);
+
+  useEffect(() => {
+    refreshInvitations();
+  }, [refreshInvitations]);
+
+  const replaceInvitation = (invitation: Invitation) => {
+    setInvitations(prev => prev.map(i => i.id === invitation.id ? invitation : i));
+  };
+
+  const createInvitation = async (input: InvitationInput): Promise<Invitation> => {
+    try {
+      assertCan(user, "user:invite");
+
+      const invitation = await createInvitationService(input);
+      setInvitations(prev => [invitation, ...prev]);
+      return invitation;
+    } catch (error) {
+      reportError(error, "Failed to create invitation");
+      throw error;
+    }
+  };
+
+  const resendInvitation = async (invitation: Invitation): Promise<Invitation> => {
+    try {
+      assertCan(user, "user:invite");
+
+      const resent = await resendInvitationService(invitation);
+      replaceInvitation(resent);
+      return resent;
+    } catch (error) {
+      reportError(error, "Failed to resend invitation");
+      throw error;
+    }
+  };
+
+  const revokeInvitation = async (invitation: Invitation): Promise<void> => {
+    try {
+      assertCan(user, "user:invite");
+
+      replaceInvitation(await revokeInvitationService(invitation));
+      toast.success(`Invitation for ${invitation.email} revoked`);
+    } catch (error) {
+      reportError(error, "Failed to revoke invitation");
+      throw error;
+    }
+  };
+
+  return {
+    invitations,
+    isLoading,
+    refreshInvitations,
+    createInvitation,
+    resendInvitation,
+    revokeInvitation,
+  };
+};
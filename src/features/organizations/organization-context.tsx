@@ -0,0 +1,221 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { Organization, OrganizationMember } from "@/types/organization";
+import { UserRole } from "@/types/auth";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { assertCan } from "@/features/permissions/policy";
+import { OrganizationContextType } from "./types";
+import {
+  getUserOrganizationsService,
+  createOrganizationService,
+  updateOrganizationService,
+  getOrganizationMembersService,
+  addOrganizationMemberService,
+  updateOrganizationMemberRoleService,
+  removeOrganizationMemberService
+} from "./organization-service";
+
+// Remembers the last workspace across reloads
+const ACTIVE_ORGANIZATION_KEY = "activeOrganizationId";
+
+const emptyOrganization: Organization = { id: "", name: "", ownerId: "", createdAt: "" };
+const emptyMember: OrganizationMember = { orgId: "", userId: "", name: "", role: "", joinedAt: "" };
+
+const OrganizationContext = createContext<OrganizationContextType>({
+  organizations: [],
+  activeOrganization: null,
+  isLoading: false,
+  switchOrganization: () => {},
+  createOrganization: async () => emptyOrganization,
+  renameOrganization: async () => emptyOrganization,
+  getOrganizationMembers: async () => [],
+  addOrganizationMember: async () => emptyMember,
+  updateOrganizationMemberRole: async () => emptyMember,
+  removeOrganizationMember: async () => {},
+});
+
+// Organizations are evaluated by the policy engine like any other resource
+const asResource = (org: Organization) => ({ id: org.id, orgId: org.id, createdBy: org.ownerId });
+
+export const OrganizationProvider = ({ children }: { children: React.ReactNode }) => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activeOrganizationId, setActiveOrganizationId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_ORGANIZATION_KEY)
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const { user, isAuthenticated, refreshUser } = useAuth();
+
+  const loadOrganizations = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const fetchedOrganizations = await getUserOrganizationsService();
+      setOrganizations(fetchedOrganizations);
+
+      // Fall back to the first organization when the remembered one is gone
+      setActiveOrganizationId(prev =>
+        fetchedOrganizations.some(org => org.id === prev) ? prev : fetchedOrganizations[0]?.id ?? null
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadOrganizations();
+    } else {
+      setOrganizations([]);
+    }
+  }, [isAuthenticated, loadOrganizations]);
+
+  useEffect(() => {
+    if (activeOrganizationId) {
+      localStorage.setItem(ACTIVE_ORGANIZATION_KEY, activeOrganizationId);
+    }
+  }, [activeOrganizationId]);
+
+  // While viewing as another user, only the organizations that user belongs to are listed
+  const visibleOrganizations = user?.impersonatedBy
+    ? organizations.filter(org => user.orgRoles?.[org.id])
+    : organizations;
+
+  const activeOrganization = visibleOrganizations.find(org => org.id === activeOrganizationId)
+    ?? (user?.impersonatedBy ? visibleOrganizations[0] : undefined)
+    ?? null;
+
+  const findOrganization = (id: string): Organization => {
+    const org = visibleOrganizations.find(o => o.id === id);
+    if (!org) throw new Error("Organization not found");
+    return org;
+  };
+
+  const switchOrganization = (id: string) => {
+    setActiveOrganizationId(findOrganization(id).id);
+  };
+
+  const createOrganization = async (name: string): Promise<Organization> => {
+    try {
+      if (!user) throw new Error("You must be logged in");
+
+      const org = await createOrganizationService(name, user.id);
+      setOrganizations(prev => [...prev, org]);
+      setActiveOrganizationId(org.id);
+
+      // Pick up the owner role the database just granted
+      await refreshUser();
+
+      toast.success(`Organization "${org.name}" created`);
+      return org;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to create organization");
+      }
+      throw error;
+    }
+  };
+
+  const renameOrganization = async (id: string, name: string): Promise<Organization> => {
+    try {
+      assertCan(user, "organization:manage", asResource(findOrganization(id)));
+
+      const org = await updateOrganizationService(id, name);
+      setOrganizations(prev => prev.map(o => o.id === id ? org : o));
+
+      toast.success("Organization renamed");
+      return org;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to rename organization");
+      }
+      throw error;
+    }
+  };
+
+  const getOrganizationMembers = async (orgId: string): Promise<OrganizationMember[]> => {
+    return await getOrganizationMembersService(orgId);
+  };
+
+  const addOrganizationMember = async (orgId: string, userId: string, role: UserRole): Promise<OrganizationMember> => {
+    try {
+      assertCan(user, "organization:manage", asResource(findOrganization(orgId)));
+
+      const member = await addOrganizationMemberService(orgId, userId, role);
+
+      toast.success(`${member.name} added as ${role}`);
+      return member;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to add member");
+      }
+      throw error;
+    }
+  };
+
+  const updateOrganizationMemberRole = async (orgId: string, userId: string, role: UserRole): Promise<OrganizationMember> => {
+    try {
+      const org = findOrganization(orgId);
+      assertCan(user, "organization:manage", asResource(org));
+      if (userId === org.ownerId) throw new Error("The owner's role cannot be changed");
+
+      const member = await updateOrganizationMemberRoleService(orgId, userId, role);
+      if (userId === user.id) await refreshUser();
+
+      toast.success(`${member.name} is now ${role} in ${org.name}`);
+      return member;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to update member");
+      }
+      throw error;
+    }
+  };
+
+  const removeOrganizationMember = async (orgId: string, userId: string): Promise<void> => {
+    try {
+      const org = findOrganization(orgId);
+      assertCan(user, "organization:manage", asResource(org));
+      if (userId === org.ownerId) throw new Error("The owner cannot be removed from the organization");
+
+      await removeOrganizationMemberService(orgId, userId);
+
+      toast.success("Member removed");
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to remove member");
+      }
+      throw error;
+    }
+  };
+
+  return (
+    <OrganizationContext.Provider
+      value={{
+        organizations: visibleOrganizations,
+        activeOrganization,
+        isLoading,
+        switchOrganization,
+        createOrganization,
+        renameOrganization,
+        getOrganizationMembers,
+        addOrganizationMember,
+        updateOrganizationMemberRole,
+        removeOrganizationMember,
+      }}
+    >
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
+
+export const useOrganizations = () => useContext(OrganizationContext);
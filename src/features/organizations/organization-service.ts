@@ -0,0 +1,215 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Organization, OrganizationMember } from "@/types/organization";
+import { RoleGrant, UserRole } from "@/types/auth";
+import { getCapabilitiesByRoleService } from "@/features/roles/role-service";
+import { getProfileNamesService } from "@/features/projects/member-service";
+
+// Helper function to format an organization from the database
+export const formatOrganization = (data: Tables<'organizations'>): Organization => {
+  return {
+    id: data.id,
+    name: data.name,
+    ownerId: data.owner_id,
+    createdAt: data.created_at
+  };
+};
+
+// Helper function to format an organization member from the database
+export const formatOrganizationMember = (data: Tables<'organization_members'>, name: string): OrganizationMember => {
+  return {
+    orgId: data.org_id,
+    userId: data.user_id,
+    name,
+    role: data.role as UserRole,
+    joinedAt: data.joined_at
+  };
+};
+
+// RLS only returns organizations the current user belongs to
+export const getUserOrganizationsService = async (): Promise<Organization[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching organizations:", error);
+      throw error;
+    }
+
+    return data.map(org => formatOrganization(org));
+  } catch (error) {
+    console.error("Exception in getUserOrganizationsService:", error);
+    return [];
+  }
+};
+
+export const createOrganizationService = async (name: string, userId: string): Promise<Organization> => {
+  try {
+    // A database trigger adds the creator as a member with the owner role
+    const { data, error } = await supabase
+      .from('organizations')
+      .insert({ name, owner_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating organization:", error);
+      throw error;
+    }
+
+    return formatOrganization(data);
+  } catch (error) {
+    console.error("Error in createOrganizationService:", error);
+    throw error;
+  }
+};
+
+export const updateOrganizationService = async (id: string, name: string): Promise<Organization> => {
+  try {
+    const { data, error } = await supabase
+      .from('organizations')
+      .update({ name })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating organization:", error);
+      throw error;
+    }
+
+    return formatOrganization(data);
+  } catch (error) {
+    console.error("Error in updateOrganizationService:", error);
+    throw error;
+  }
+};
+
+export const getOrganizationMembersService = async (orgId: string): Promise<OrganizationMember[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching organization members:", error);
+      throw error;
+    }
+
+    const names = await getProfileNamesService(data.map(member => member.user_id));
+    return data.map(member => formatOrganizationMember(member, names[member.user_id] || 'Unknown user'));
+  } catch (error) {
+    console.error("Exception in getOrganizationMembersService:", error);
+    return [];
+  }
+};
+
+export const addOrganizationMemberService = async (
+  orgId: string,
+  userId: string,
+  role: UserRole
+): Promise<OrganizationMember> => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .insert({ org_id: orgId, user_id: userId, role })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error adding organization member:", error);
+      // 23505: the user is already a member of the organization
+      if (error.code === '23505') {
+        throw new Error("This user is already a member of the organization");
+      }
+      throw error;
+    }
+
+    const names = await getProfileNamesService([userId]);
+    return formatOrganizationMember(data, names[userId] || 'Unknown user');
+  } catch (error) {
+    console.error("Error in addOrganizationMemberService:", error);
+    throw error;
+  }
+};
+
+export const updateOrganizationMemberRoleService = async (
+  orgId: string,
+  userId: string,
+  role: UserRole
+): Promise<OrganizationMember> => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .update({ role })
+      .eq('org_id', orgId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating organization member:", error);
+      throw error;
+    }
+
+    const names = await getProfileNamesService([userId]);
+    return formatOrganizationMember(data, names[userId] || 'Unknown user');
+  } catch (error) {
+    console.error("Error in updateOrganizationMemberRoleService:", error);
+    throw error;
+  }
+};
+
+export const removeOrganizationMemberService = async (orgId: string, userId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('org_id', orgId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Error removing organization member:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in removeOrganizationMemberService:", error);
+    throw error;
+  }
+};
+
+// Resolves every organization-level role the user holds, with its capabilities
+export const getUserOrganizationRolesService = async (userId: string): Promise<Record<string, RoleGrant>> => {
+  try {
+    const { data: memberships, error } = await supabase
+      .from('organization_members')
+      .select('org_id, role')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Error fetching organization roles:", error);
+      return {};
+    }
+
+    if (memberships.length === 0) return {};
+
+    const capabilities = await getCapabilitiesByRoleService(memberships.map(m => m.role));
+
+    const grants: Record<string, RoleGrant> = {};
+    memberships.forEach(membership => {
+      grants[membership.org_id] = {
+        role: membership.role,
+        capabilities: capabilities[membership.role] || [],
+      };
+    });
+    return grants;
+  } catch (error) {
+    console.error("Exception in getUserOrganizationRolesService:", error);
+    return {};
+  }
+};
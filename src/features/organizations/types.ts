@@ -0,0 +1,15 @@
+import { Organization, OrganizationMember } from "@/types/organization";
+import { UserRole } from "@/types/auth";
+
+export interface OrganizationContextType {
+  organizations: Organization[];
+  activeOrganization: Organization | null;
+  isLoading: boolean;
+  switchOrganization: (id: string) => void;
+  createOrganization: (name: string) => Promise<Organization>;
+  renameOrganization: (id: string, name: string) => Promise<Organization>;
+  getOrganizationMembers: (orgId: string) => Promise<OrganizationMember[]>;
+  addOrganizationMember: (orgId: string, userId: string, role: UserRole) => Promise<OrganizationMember>;
+  updateOrganizationMemberRole: (orgId: string, userId: string, role: UserRole) => Promise<OrganizationMember>;
+  removeOrganizationMember: (orgId: string, userId: string) => Promise<void>;
+}
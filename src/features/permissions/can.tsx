@@ -0,0 +1,18 @@
+import React from "react";
+import { Action, Resource } from "./policy";
+import { useCan } from "./use-can";
+
+interface CanProps {
+  action: Action;
+  resource?: Resource | null;
+  // Rendered instead of the children when the action is not allowed
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const Can: React.FC<CanProps> = ({ action, resource, fallback = null, children }) => {
+  const allowed = useCan(action, resource);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
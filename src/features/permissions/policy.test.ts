@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { User } from "@/types/auth";
+import { Capability } from "@/types/role";
+import { assertCan, can, canGrantProjectRole, canTransition } from "./policy";
+
+const makeUser = (capabilities: Capability[], overrides: Partial<User> = {}): User => ({
+  id: "user-1",
+  email: "user@example.com",
+  name: "Test User",
+  role: "Editor",
+  status: "active",
+  capabilities,
+  createdAt: "2024-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const ownProject = { id: "project-1", orgId: "org-1", createdBy: "user-1" };
+const otherProject = { id: "project-2", orgId: "org-1", createdBy: "user-2" };
+
+describe("can", () => {
+  it("denies everything without a user", () => {
+    expect(can(null, "project:view")).toBe(false);
+  });
+
+  it("allows an action through an any capability", () => {
+    const user = makeUser(["projects:edit:any"]);
+    expect(can(user, "project:update", otherProject)).toBe(true);
+  });
+
+  it("limits own capabilities to resources the user created", () => {
+    const user = makeUser(["projects:edit:own"]);
+    expect(can(user, "project:update", ownProject)).toBe(true);
+    expect(can(user, "project:update", otherProject)).toBe(false);
+  });
+
+  it("treats own capabilities as satisfiable when the owner is unknown", () => {
+    const user = makeUser(["projects:edit:own"]);
+    expect(can(user, "project:update")).toBe(true);
+  });
+
+  it("refuses notSelf actions on the acting user", () => {
+    const user = makeUser(["users:manage"]);
+    expect(can(user, "user:change-role", { id: "user-2" })).toBe(true);
+    expect(can(user, "user:change-role", { id: "user-1" })).toBe(false);
+  });
+
+  it("prefers the project role over the organization and global roles", () => {
+    const user = makeUser(["projects:edit:any"], {
+      orgRoles: { "org-1": { role: "Editor", capabilities: ["projects:edit:any"] } },
+      projectRoles: { "project-2": { role: "Viewer", capabilities: ["projects:view"] } },
+    });
+    expect(can(user, "project:update", otherProject)).toBe(false);
+    expect(can(user, "project:update", { ...otherProject, id: "project-3" })).toBe(true);
+  });
+
+  it("uses the organization role for resources in that organization", () => {
+    const user = makeUser([], {
+      orgRoles: { "org-1": { role: "Editor", capabilities: ["projects:create"] } },
+    });
+    expect(can(user, "project:create", { orgId: "org-1" })).toBe(true);
+    expect(can(user, "project:create", { orgId: "org-2" })).toBe(false);
+  });
+
+  it("ignores organization roles for global actions", () => {
+    const user = makeUser([], {
+      orgRoles: { "org-1": { role: "Admin", capabilities: ["users:manage"] } },
+    });
+    expect(can(user, "user:invite", { orgId: "org-1" })).toBe(false);
+  });
+});
+
+describe("assertCan", () => {
+  it("throws without a user", () => {
+    expect(() => assertCan(null, "project:view")).toThrow("You must be logged in");
+  });
+
+  it("throws the rule's description when the action is not allowed", () => {
+    const user = makeUser(["projects:view"]);
+    expect(() => assertCan(user, "project:delete", otherProject)).toThrow(
+      "You don't have permission to delete this project"
+    );
+  });
+
+  it("refuses every change while viewing as another user", () => {
+    const user = makeUser(["projects:edit:any"], { impersonatedBy: { id: "admin-1", name: "Admin" } });
+    expect(() => assertCan(user, "project:update", otherProject)).toThrow(/viewing the app as Test User/);
+  });
+
+  it("passes when the action is allowed", () => {
+    const user = makeUser(["projects:delete:own"]);
+    expect(() => assertCan(user, "project:delete", ownProject)).not.toThrow();
+  });
+});
+
+describe("canTransition", () => {
+  it("requires permission to change the project's status", () => {
+    const user = makeUser(["projects:view", "projects:approve"]);
+    expect(canTransition(user, otherProject, { capability: null })).toBe(false);
+  });
+
+  it("allows transitions without a capability to anyone who can edit the project", () => {
+    const user = makeUser(["projects:edit:own"]);
+    expect(canTransition(user, ownProject, { capability: null })).toBe(true);
+  });
+
+  it("requires the transition's capability", () => {
+    const editor = makeUser(["projects:edit:any"]);
+    const approver = makeUser(["projects:edit:any", "projects:approve"]);
+    expect(canTransition(editor, otherProject, { capability: "projects:approve" })).toBe(false);
+    expect(canTransition(approver, otherProject, { capability: "projects:approve" })).toBe(true);
+  });
+
+  it("checks the transition's capability against the project role", () => {
+    const user = makeUser(["projects:edit:any", "projects:approve"], {
+      projectRoles: { "project-2": { role: "Editor", capabilities: ["projects:edit:any"] } },
+    });
+    expect(canTransition(user, otherProject, { capability: "projects:approve" })).toBe(false);
+  });
+});
+
+describe("canGrantProjectRole", () => {
+  const editorRole = { capabilities: ["projects:view", "projects:edit:any"] as Capability[] };
+
+  it("denies without a user or a role", () => {
+    expect(canGrantProjectRole(null, otherProject, editorRole)).toBe(false);
+    expect(canGrantProjectRole(makeUser(["projects:view"]), otherProject, undefined)).toBe(false);
+  });
+
+  it("requires every capability of the role", () => {
+    expect(canGrantProjectRole(makeUser(["projects:view"]), otherProject, editorRole)).toBe(false);
+    expect(canGrantProjectRole(makeUser(["projects:view", "projects:edit:any"]), otherProject, editorRole)).toBe(true);
+  });
+
+  it("uses the capabilities the user holds on the project", () => {
+    const user = makeUser(["projects:view", "projects:edit:any"], {
+      projectRoles: { "project-2": { role: "Viewer", capabilities: ["projects:view"] } },
+    });
+    expect(canGrantProjectRole(user, otherProject, editorRole)).toBe(false);
+    expect(canGrantProjectRole(user, ownProject, editorRole)).toBe(true);
+  });
+});
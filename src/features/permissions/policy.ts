@@ -0,0 +1,261 @@
+import { User } from "@/types/auth";
+import { Capability, hasCapability, holdsEveryCapability, Role } from "@/types/role";
+import { StatusTransition } from "@/types/workflow";
+
+export type Action =
+  | "project:view"
+  | "project:create"
+  | "project:update"
+  | "project:delete"
+  | "project:manage-members"
+  | "project:transfer"
+  | "project:restore"
+  | "project:purge"
+  | "project:tag"
+  | "project:change-status"
+  | "trash:configure"
+  | "organization:manage"
+  | "user:list"
+  | "user:change-role"
+  | "user:change-status"
+  | "user:invite"
+  | "user:impersonate"
+  | "registration:manage"
+  | "role:manage"
+  | "audit:view"
+  | "tag:manage"
+  | "workflow:manage";
+
+// Anything a rule can be evaluated against: projects (owned through
+// createdBy), organizations and users (the subject of user management actions)
+export interface Resource {
+  id?: string;
+  createdBy?: string;
+  // The organization the resource lives in
+  orgId?: string;
+}
+
+// Which role assignments a rule consults, most specific first:
+// project role, then organization role, then the global role
+type PolicyScope = "project" | "organization" | "global";
+
+interface PolicyRule {
+  // Any of these capabilities allows the action on every resource
+  any?: Capability[];
+  // Any of these capabilities allows the action on resources the user created
+  own?: Capability[];
+  // The action can never target the acting user themselves
+  notSelf?: boolean;
+  scope: PolicyScope;
+  // Used in the error thrown by assertCan
+  description: string;
+}
+
+// The single source of truth for who may do what
+export const POLICY: Record<Action, PolicyRule> = {
+  "project:view": {
+    any: ["projects:view"],
+    scope: "project",
+    description: "view projects",
+  },
+  "project:create": {
+    any: ["projects:create"],
+    scope: "organization",
+    description: "create projects",
+  },
+  "project:update": {
+    any: ["projects:edit:any"],
+    own: ["projects:edit:own"],
+    scope: "project",
+    description: "edit this project",
+  },
+  "project:delete": {
+    any: ["projects:delete:any"],
+    own: ["projects:delete:own"],
+    scope: "project",
+    description: "delete this project",
+  },
+  "project:manage-members": {
+    any: ["members:manage:any"],
+    own: ["members:manage:own"],
+    scope: "project",
+    description: "manage members of this project",
+  },
+  "project:transfer": {
+    any: ["projects:edit:any"],
+    own: ["projects:edit:own"],
+    scope: "project",
+    description: "transfer ownership of this project",
+  },
+  "project:restore": {
+    any: ["projects:delete:any"],
+    own: ["projects:delete:own"],
+    scope: "project",
+    description: "restore this project",
+  },
+  "project:purge": {
+    any: ["projects:delete:any"],
+    scope: "project",
+    description: "permanently delete this project",
+  },
+  "project:tag": {
+    any: ["projects:edit:any"],
+    own: ["projects:edit:own"],
+    scope: "project",
+    description: "change the tags of this project",
+  },
+  // Each transition of the workflow may require a further capability; see canTransition
+  "project:change-status": {
+    any: ["projects:edit:any"],
+    own: ["projects:edit:own"],
+    scope: "project",
+    description: "change the status of this project",
+  },
+  "trash:configure": {
+    any: ["projects:delete:any"],
+    scope: "global",
+    description: "change how long deleted projects are kept",
+  },
+  "organization:manage": {
+    any: ["organizations:manage"],
+    scope: "organization",
+    description: "manage this organization",
+  },
+  "user:list": {
+    any: ["users:manage"],
+    scope: "global",
+    description: "view users",
+  },
+  "user:change-role": {
+    any: ["users:manage"],
+    notSelf: true,
+    scope: "global",
+    description: "change this user's role",
+  },
+  "user:change-status": {
+    any: ["users:manage"],
+    notSelf: true,
+    scope: "global",
+    description: "change this user's account status",
+  },
+  "user:invite": {
+    any: ["users:manage"],
+    scope: "global",
+    description: "invite users",
+  },
+  "user:impersonate": {
+    any: ["users:manage"],
+    notSelf: true,
+    scope: "global",
+    description: "view the app as this user",
+  },
+  "registration:manage": {
+    any: ["users:manage"],
+    scope: "global",
+    description: "change the registration policy",
+  },
+  "role:manage": {
+    any: ["roles:manage"],
+    scope: "global",
+    description: "manage roles",
+  },
+  "audit:view": {
+    any: ["audit:view"],
+    scope: "global",
+    description: "view the audit log",
+  },
+  "tag:manage": {
+    any: ["tags:manage"],
+    scope: "organization",
+    description: "manage tags",
+  },
+  "workflow:manage": {
+    any: ["roles:manage"],
+    scope: "global",
+    description: "configure the project workflow",
+  },
+};
+
+// Uses the most specific role the user holds for the resource
+const resolveCapabilities = (user: User, rule: PolicyRule, resource?: Resource | null): Capability[] => {
+  if (rule.scope === "project" && resource?.id && user.projectRoles?.[resource.id]) {
+    return user.projectRoles[resource.id].capabilities;
+  }
+  if (rule.scope !== "global" && resource?.orgId && user.orgRoles?.[resource.orgId]) {
+    return user.orgRoles[resource.orgId].capabilities;
+  }
+  return user.capabilities;
+};
+
+/**
+ * Answers whether the user may perform the action. When the resource's
+ * owner is not known, ownership rules are treated as satisfiable, so the
+ * answer is "is this allowed on at least some resources".
+ */
+export const can = (user: User | null, action: Action, resource?: Resource | null): boolean => {
+  if (!user) return false;
+
+  const rule = POLICY[action];
+
+  if (rule.notSelf && resource?.id === user.id) {
+    return false;
+  }
+
+  const subject = { capabilities: resolveCapabilities(user, rule, resource) };
+
+  if (rule.any?.some(capability => hasCapability(subject, capability))) {
+    return true;
+  }
+
+  if (rule.own?.some(capability => hasCapability(subject, capability))) {
+    return !resource?.createdBy || resource.createdBy === user.id;
+  }
+
+  return false;
+};
+
+// Throws when the user is not allowed to perform the action
+export const assertCan = (user: User | null, action: Action, resource?: Resource | null): void => {
+  if (!user) {
+    throw new Error("You must be logged in");
+  }
+
+  // Viewing as another user is read-only, whatever that user may do
+  if (user.impersonatedBy) {
+    throw new Error(`Changes are disabled while viewing the app as ${user.name}`);
+  }
+
+  if (!can(user, action, resource)) {
+    console.warn(`Permission denied: ${user.role} cannot ${action}`);
+    throw new Error(`You don't have permission to ${POLICY[action].description}`);
+  }
+};
+
+// Workflow transitions name their capability at runtime instead of in POLICY.
+// Mirrors change_project_status: the user must be able to edit the project and
+// hold the transition's capability for it.
+export const canTransition = (
+  user: User | null,
+  project: Resource,
+  transition: Pick<StatusTransition, "capability">
+): boolean => {
+  if (!can(user, "project:change-status", project)) return false;
+  if (!transition.capability) return true;
+
+  const capabilities = resolveCapabilities(user, POLICY["project:change-status"], project);
+  return hasCapability({ capabilities }, transition.capability);
+};
+
+// Mirrors has_all_project_capabilities: a project role can only be handed out,
+// as a membership or through an invitation, by someone who holds all of its
+// capabilities on that project
+export const canGrantProjectRole = (
+  user: User | null,
+  project: Resource,
+  role: Pick<Role, "capabilities"> | undefined
+): boolean => {
+  if (!user) return false;
+
+  const capabilities = resolveCapabilities(user, POLICY["project:manage-members"], project);
+  return holdsEveryCapability({ capabilities }, role);
+};
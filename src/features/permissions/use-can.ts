@@ -0,0 +1,10 @@
+import { useAuth } from "@/contexts/auth-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { Action, Resource, can } from "./policy";
+
+// Resources default to the active organization so org-level roles apply
+export const useCan = (action: Action, resource?: Resource | null): boolean => {
+  const { user } = useAuth();
+  const { activeOrganization } = useOrganizations();
+  return can(user, action, { orgId: activeOrganization?.id, ...resource });
+};
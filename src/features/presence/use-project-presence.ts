@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/auth-context";
+import { PresenceMode, PresenceUser } from "@/types/presence";
+
+/**
+ * Joins the presence channel of a project and returns everyone else who is
+ * currently on it. A user with several tabs open is listed once, preferring
+ * the tab where they are editing.
+ */
+export const useProjectPresence = (projectId: string | undefined, mode: PresenceMode): PresenceUser[] => {
+  // Administrators viewing as someone else still appear as themselves
+  const { realUser: user } = useAuth();
+  const [others, setOthers] = useState<PresenceUser[]>([]);
+  const userId = user?.id;
+  const userName = user?.name;
+
+  useEffect(() => {
+    if (!projectId || !userId) return;
+
+    // Private, so Realtime only lets in users who can see the project
+    const channel = supabase.channel(`project-presence:${projectId}`, {
+      config: { private: true, presence: { key: userId } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<PresenceUser>();
+        const users = Object.entries(state)
+          .filter(([key]) => key !== userId)
+          .map(([, sessions]) => sessions.find(s => s.mode === "editing") ?? sessions[0]);
+        setOthers(users);
+      })
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED") {
+          await channel.track({
+            userId,
+            name: userName,
+            mode,
+            onlineAt: new Date().toISOString(),
+          });
+        }
+      });
+
+    return () => {
+      setOthers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [projectId, userId, userName, mode]);
+
+  return others;
+};
@@ -0,0 +1,13 @@
+import { Project } from "@/types/project";
+
+// Thrown when a project changed after the edit being saved was started.
+// Carries the current server version so the editor can reconcile the two.
+export class ProjectConflictError extends Error {
+  readonly current: Project;
+
+  constructor(current: Project) {
+    super("This project was changed by someone else while you were editing it");
+    this.name = "ProjectConflictError";
+    this.current = current;
+  }
+}
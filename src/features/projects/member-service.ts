@@ -0,0 +1,172 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ProjectMember } from "@/types/project";
+import { RoleGrant, UserRole } from "@/types/auth";
+import { getCapabilitiesByRoleService } from "@/features/roles/role-service";
+
+// Helper function to format a project member from the database
+export const formatProjectMember = (data: Tables<'project_members'>, name: string): ProjectMember => {
+  return {
+    projectId: data.project_id,
+    userId: data.user_id,
+    name,
+    role: data.role as UserRole,
+    addedAt: data.added_at
+  };
+};
+
+// Looks up display names for a set of users in a single query
+export const getProfileNamesService = async (userIds: string[]): Promise<Record<string, string>> => {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, name')
+    .in('id', userIds);
+
+  if (error) {
+    console.error("Error fetching profile names:", error);
+    return {};
+  }
+
+  const names: Record<string, string> = {};
+  data.forEach(profile => {
+    names[profile.id] = profile.name;
+  });
+  return names;
+};
+
+export const getProjectMembersService = async (projectId: string): Promise<ProjectMember[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('project_members')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('added_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching project members:", error);
+      throw error;
+    }
+
+    const names = await getProfileNamesService(data.map(member => member.user_id));
+    return data.map(member => formatProjectMember(member, names[member.user_id] || 'Unknown user'));
+  } catch (error) {
+    console.error("Exception in getProjectMembersService:", error);
+    return [];
+  }
+};
+
+export const addProjectMemberService = async (
+  projectId: string,
+  userId: string,
+  role: UserRole,
+  addedBy: string
+): Promise<ProjectMember> => {
+  try {
+    console.log(`Adding ${userId} to project ${projectId} as ${role}`);
+    const { data, error } = await supabase
+      .from('project_members')
+      .insert({
+        project_id: projectId,
+        user_id: userId,
+        role,
+        added_by: addedBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error adding project member:", error);
+      // 23505: the user is already a member of the project
+      if (error.code === '23505') {
+        throw new Error("This user is already a member of the project");
+      }
+      throw error;
+    }
+
+    const names = await getProfileNamesService([userId]);
+    return formatProjectMember(data, names[userId] || 'Unknown user');
+  } catch (error) {
+    console.error("Error in addProjectMemberService:", error);
+    throw error;
+  }
+};
+
+export const updateProjectMemberRoleService = async (
+  projectId: string,
+  userId: string,
+  role: UserRole
+): Promise<ProjectMember> => {
+  try {
+    console.log(`Changing ${userId} on project ${projectId} to ${role}`);
+    const { data, error } = await supabase
+      .from('project_members')
+      .update({ role })
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating project member:", error);
+      throw error;
+    }
+
+    const names = await getProfileNamesService([userId]);
+    return formatProjectMember(data, names[userId] || 'Unknown user');
+  } catch (error) {
+    console.error("Error in updateProjectMemberRoleService:", error);
+    throw error;
+  }
+};
+
+export const removeProjectMemberService = async (projectId: string, userId: string): Promise<void> => {
+  try {
+    console.log(`Removing ${userId} from project ${projectId}`);
+    const { error } = await supabase
+      .from('project_members')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Error removing project member:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in removeProjectMemberService:", error);
+    throw error;
+  }
+};
+
+// Resolves every project-level role the user holds, with its capabilities
+export const getUserProjectRolesService = async (userId: string): Promise<Record<string, RoleGrant>> => {
+  try {
+    const { data: memberships, error } = await supabase
+      .from('project_members')
+      .select('project_id, role')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Error fetching project roles:", error);
+      return {};
+    }
+
+    if (memberships.length === 0) return {};
+
+    const capabilities = await getCapabilitiesByRoleService(memberships.map(m => m.role));
+
+    const grants: Record<string, RoleGrant> = {};
+    memberships.forEach(membership => {
+      grants[membership.project_id] = {
+        role: membership.role,
+        capabilities: capabilities[membership.role] || [],
+      };
+    });
+    return grants;
+  } catch (error) {
+    console.error("Exception in getUserProjectRolesService:", error);
+    return {};
+  }
+};
@@ -1,49 +1,113 @@
 
-import React, { createContext, useContext, useState } from "react";
-import { Project, ProjectWithAuthor } from "@/types/project";
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { BulkActionResult, Project, ProjectMember, ProjectPage, ProjectQuery, ProjectRevision, ProjectSearchPage, ProjectWithAuthor } from "@/types/project";
+import { UserRole } from "@/types/auth";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/auth-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { supabase } from "@/integrations/supabase/client";
 import { ProjectContextType } from "./types";
 import { 
   createProjectService,
   updateProjectService,
   deleteProjectService,
+  transferProjectOwnershipService,
+  getProjectsByOwnerService,
   getProjectService,
   getAllProjectsService,
-  getProjectWithAuthorService
+  getProjectsPageService,
+  searchProjectsService,
+  getProjectWithAuthorService,
+  formatProject
 } from "./project-service";
-import { useProjectPermissions } from "./use-project-permissions";
+import {
+  getProjectMembersService,
+  addProjectMemberService,
+  updateProjectMemberRoleService,
+  removeProjectMemberService
+} from "./member-service";
+import { getProjectRevisionsService } from "./revision-service";
+import { ProjectConflictError } from "./errors";
+import { assertCan } from "@/features/permissions/policy";
 
 const ProjectContext = createContext<ProjectContextType>({
   projects: [],
   isLoading: false,
-  createProject: async () => ({ id: "", title: "", content: "", createdBy: "", createdAt: "", updatedAt: "" }),
-  updateProject: async () => ({ id: "", title: "", content: "", createdBy: "", createdAt: "", updatedAt: "" }),
+  hasNewProjects: false,
+  createProject: async () => ({ id: "", title: "", content: "", orgId: "", createdBy: "", createdAt: "", updatedAt: "", status: "draft" }),
+  updateProject: async () => ({ id: "", title: "", content: "", orgId: "", createdBy: "", createdAt: "", updatedAt: "", status: "draft" }),
   deleteProject: async () => {},
+  deleteProjects: async () => ({ succeeded: [], failed: [] }),
+  transferProjectOwnership: async () => [],
+  getProjectsByOwner: async () => [],
   getProject: async () => null,
   getAllProjects: async () => [],
+  getProjectsPage: async () => ({ projects: [], total: 0 }),
+  searchProjects: async () => ({ results: [], total: 0 }),
   getProjectWithAuthor: async () => null,
+  getProjectMembers: async () => [],
+  addProjectMember: async () => ({ projectId: "", userId: "", name: "", role: "", addedAt: "" }),
+  updateProjectMemberRole: async () => ({ projectId: "", userId: "", name: "", role: "", addedAt: "" }),
+  removeProjectMember: async () => {},
+  getProjectRevisions: async () => [],
+  restoreProjectRevision: async () => ({ id: "", title: "", content: "", orgId: "", createdBy: "", createdAt: "", updatedAt: "", status: "draft" }),
 });
 
 export const ProjectProvider = ({ children }: { children: React.ReactNode }) => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const { user } = useAuth();
-  const { checkPermission } = useProjectPermissions();
+  const [hasNewProjects, setHasNewProjects] = useState(false);
+  const { user, refreshUser } = useAuth();
+  const { activeOrganization } = useOrganizations();
+  const activeOrganizationId = activeOrganization?.id;
+
+  // Projects from the previous organization must not leak into the new one
+  useEffect(() => {
+    setProjects([]);
+    setHasNewProjects(false);
+  }, [activeOrganizationId]);
+
+  // Apply other users' changes as they happen so project lists never go stale
+  useEffect(() => {
+    if (!activeOrganizationId) return;
+
+    const filter = `org_id=eq.${activeOrganizationId}`;
+    const channel = supabase
+      .channel(`projects:${activeOrganizationId}`)
+      // Where a new project lands depends on the filters, sort and page, so
+      // the list is only flagged for reloading
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'projects', filter }, () => {
+        setHasNewProjects(true);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'projects', filter }, (payload) => {
+        const project = formatProject(payload.new);
+        // Moving a project to the trash is an update, not a delete
+        if (project.deletedAt) {
+          setProjects(prev => prev.filter(p => p.id !== project.id));
+          return;
+        }
+        // Updated in place so a sorted page keeps its order
+        setProjects(prev => prev.map(p => p.id === project.id ? project : p));
+      })
+      // Realtime cannot filter deletes, but removing an id we do not hold is a no-op
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'projects' }, (payload) => {
+        setProjects(prev => prev.filter(p => p.id !== payload.old.id));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeOrganizationId]);
 
   const createProject = async (title: string, content: string): Promise<Project> => {
     setIsLoading(true);
     
     try {
-      // Check permission
-      checkPermission(user, "create");
-      
-      if (!user) throw new Error("User not authenticated");
-      
-      const formattedProject = await createProjectService(title, content, user.id);
+      if (!activeOrganizationId) throw new Error("Select an organization first");
+      assertCan(user, "project:create", { orgId: activeOrganizationId });
       
-      // Update local state
-      setProjects(prev => [formattedProject, ...prev]);
+      const formattedProject = await createProjectService(title, content, user.id, activeOrganizationId);
       
       toast.success("Project created successfully");
       return formattedProject;
@@ -59,16 +123,16 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }) =>
     }
   };
 
-  const updateProject = async (id: string, title: string, content: string): Promise<Project> => {
+  const updateProject = async (id: string, title: string, content: string, baseUpdatedAt?: string): Promise<Project> => {
     setIsLoading(true);
     
     try {
-      // Check permission
-      checkPermission(user, "update");
-      
-      if (!user) throw new Error("User not authenticated");
+      // Ownership rules need the project itself
+      const existing = await getProject(id);
+      if (!existing) throw new Error("Project not found");
+      assertCan(user, "project:update", existing);
       
-      const formattedProject = await updateProjectService(id, title, content);
+      const formattedProject = await updateProjectService(id, title, content, baseUpdatedAt);
       
       // Update local state
       setProjects(prev => prev.map(p => p.id === id ? formattedProject : p));
@@ -76,7 +140,10 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }) =>
       toast.success("Project updated successfully");
       return formattedProject;
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof ProjectConflictError) {
+        // Keep the cached copy current; the editor resolves the conflict itself
+        setProjects(prev => prev.map(p => p.id === id ? error.current : p));
+      } else if (error instanceof Error) {
         toast.error(error.message);
       } else {
         toast.error("Failed to update project");
@@ -91,17 +158,16 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }) =>
     setIsLoading(true);
     
     try {
-      // Check permission
-      checkPermission(user, "delete");
-      
-      if (!user) throw new Error("User not authenticated");
+      const existing = await getProject(id);
+      if (!existing) throw new Error("Project not found");
+      assertCan(user, "project:delete", existing);
       
       await deleteProjectService(id);
       
       // Update local state
       setProjects(prev => prev.filter(p => p.id !== id));
       
-      toast.success("Project deleted successfully");
+      toast.success("Project moved to the trash");
     } catch (error) {
       if (error instanceof Error) {
         toast.error(error.message);
@@ -114,6 +180,57 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }) =>
     }
   };
 
+  const deleteProjects = async (projectsToDelete: Project[]): Promise<BulkActionResult> => {
+    const result: BulkActionResult = { succeeded: [], failed: [] };
+
+    for (const project of projectsToDelete) {
+      try {
+        assertCan(user, "project:delete", project);
+        await deleteProjectService(project.id);
+        result.succeeded.push(project);
+      } catch (error) {
+        result.failed.push({ project, error: error instanceof Error ? error.message : "Failed to delete project" });
+      }
+    }
+
+    // Update local state
+    const deletedIds = result.succeeded.map(project => project.id);
+    setProjects(prev => prev.filter(p => !deletedIds.includes(p.id)));
+
+    if (result.succeeded.length > 0) {
+      toast.success(`${result.succeeded.length} project${result.succeeded.length === 1 ? "" : "s"} moved to the trash`);
+    }
+    if (result.failed.length > 0) {
+      toast.error(`Could not delete ${result.failed.map(({ project }) => `"${project.title}"`).join(", ")}`);
+    }
+    return result;
+  };
+
+  const transferProjectOwnership = async (projectsToTransfer: Project[], newOwnerId: string): Promise<Project[]> => {
+    try {
+      projectsToTransfer.forEach(project => assertCan(user, "project:transfer", project));
+
+      const transferred = await transferProjectOwnershipService(projectsToTransfer, newOwnerId);
+
+      // Update local state
+      setProjects(prev => prev.map(p => transferred.find(t => t.id === p.id) ?? p));
+
+      toast.success(`Ownership of ${transferred.length} project${transferred.length === 1 ? "" : "s"} transferred`);
+      return transferred;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to transfer ownership");
+      }
+      throw error;
+    }
+  };
+
+  const getProjectsByOwner = async (userId: string): Promise<Project[]> => {
+    return await getProjectsByOwnerService(userId);
+  };
+
   const getProject = async (id: string): Promise<Project | null> => {
     try {
       // First try to find the project in local state
@@ -127,12 +244,14 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }) =>
     }
   };
 
-  const getAllProjects = async (): Promise<Project[]> => {
+  const getAllProjects = useCallback(async (): Promise<Project[]> => {
+    if (!activeOrganizationId) return [];
+
     setIsLoading(true);
     
     try {
       console.time('fetchProjects');
-      const formattedProjects = await getAllProjectsService();
+      const formattedProjects = await getAllProjectsService(activeOrganizationId);
       console.timeEnd('fetchProjects');
       
       // Update local state
@@ -147,23 +266,133 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }) =>
       // Always reset loading state
       setIsLoading(false);
     }
-  };
+  }, [activeOrganizationId]);
+
+  // Loads one page of the list into `projects`, replacing whatever was there
+  const getProjectsPage = useCallback(async (query: ProjectQuery): Promise<ProjectPage> => {
+    if (!activeOrganizationId) return { projects: [], total: 0 };
+
+    setIsLoading(true);
+
+    try {
+      const page = await getProjectsPageService(activeOrganizationId, query);
+      setProjects(page.projects);
+      setHasNewProjects(false);
+      return page;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeOrganizationId]);
+
+  // Search results are a snapshot and leave `projects` untouched
+  const searchProjects = useCallback(async (query: ProjectQuery): Promise<ProjectSearchPage> => {
+    if (!activeOrganizationId) return { results: [], total: 0 };
+    return await searchProjectsService(activeOrganizationId, query);
+  }, [activeOrganizationId]);
 
   const getProjectWithAuthor = async (id: string): Promise<ProjectWithAuthor | null> => {
     return await getProjectWithAuthorService(id);
   };
 
+  const getProjectMembers = async (projectId: string): Promise<ProjectMember[]> => {
+    return await getProjectMembersService(projectId);
+  };
+
+  // Shared by the member mutations below
+  const assertCanManageMembers = async (projectId: string) => {
+    const existing = await getProject(projectId);
+    if (!existing) throw new Error("Project not found");
+    assertCan(user, "project:manage-members", existing);
+  };
+
+  const addProjectMember = async (projectId: string, userId: string, role: UserRole): Promise<ProjectMember> => {
+    try {
+      await assertCanManageMembers(projectId);
+
+      const member = await addProjectMemberService(projectId, userId, role, user.id);
+      if (userId === user.id) await refreshUser();
+
+      toast.success(`${member.name} added as ${role}`);
+      return member;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to add member");
+      }
+      throw error;
+    }
+  };
+
+  const updateProjectMemberRole = async (projectId: string, userId: string, role: UserRole): Promise<ProjectMember> => {
+    try {
+      await assertCanManageMembers(projectId);
+
+      const member = await updateProjectMemberRoleService(projectId, userId, role);
+      if (userId === user.id) await refreshUser();
+
+      toast.success(`${member.name} is now ${role} on this project`);
+      return member;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to update member");
+      }
+      throw error;
+    }
+  };
+
+  const removeProjectMember = async (projectId: string, userId: string): Promise<void> => {
+    try {
+      await assertCanManageMembers(projectId);
+
+      await removeProjectMemberService(projectId, userId);
+      if (userId === user.id) await refreshUser();
+
+      toast.success("Member removed");
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to remove member");
+      }
+      throw error;
+    }
+  };
+
+  const getProjectRevisions = async (projectId: string): Promise<ProjectRevision[]> => {
+    return await getProjectRevisionsService(projectId);
+  };
+
+  // Restoring is a regular save, so it is checked and recorded like any other edit
+  const restoreProjectRevision = async (revision: ProjectRevision, baseUpdatedAt?: string): Promise<Project> => {
+    return await updateProject(revision.projectId, revision.title, revision.content, baseUpdatedAt);
+  };
+
   return (
     <ProjectContext.Provider
       value={{
         projects,
         isLoading,
+        hasNewProjects,
         createProject,
         updateProject,
         deleteProject,
+        deleteProjects,
+        transferProjectOwnership,
+        getProjectsByOwner,
         getProject,
         getAllProjects,
+        getProjectsPage,
+        searchProjects,
         getProjectWithAuthor,
+        getProjectMembers,
+        addProjectMember,
+        updateProjectMemberRole,
+        removeProjectMember,
+        getProjectRevisions,
+        restoreProjectRevision,
       }}
     >
       {children}
@@ -1,7 +1,9 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { Project, ProjectWithAuthor } from "@/types/project";
-import { User, UserRole } from "@/types/auth";
+import { Project, ProjectPage, ProjectQuery, ProjectSearchPage, ProjectSortField, ProjectWithAuthor } from "@/types/project";
+import { ProjectStatus } from "@/types/workflow";
+import { User, UserRole, UserStatus } from "@/types/auth";
+import { ProjectConflictError } from "./errors";
 
 // Helper function to format a project from the database
 export const formatProject = (data: any): Project => {
@@ -9,16 +11,21 @@ export const formatProject = (data: any): Project => {
     id: data.id,
     title: data.title,
     content: data.content,
+    orgId: data.org_id,
     createdBy: data.created_by,
     createdAt: data.created_at,
-    updatedAt: data.updated_at
+    updatedAt: data.updated_at,
+    deletedAt: data.deleted_at ?? null,
+    deletedBy: data.deleted_by ?? null,
+    status: data.status ?? "draft"
   };
 };
 
-export const createProjectService = async (title: string, content: string, userId: string): Promise<Project> => {
+export const createProjectService = async (title: string, content: string, userId: string, orgId: string): Promise<Project> => {
   const newProject = {
     title,
     content,
+    org_id: orgId,
     created_by: userId
   };
   
@@ -43,27 +50,55 @@ export const createProjectService = async (title: string, content: string, userI
   }
 };
 
-export const updateProjectService = async (id: string, title: string, content: string): Promise<Project> => {
-  const updates = {
-    title,
-    content,
-    updated_at: new Date().toISOString()
-  };
+/**
+ * Saves a new title and content. When `baseUpdatedAt` is given the write only
+ * succeeds if the project has not been saved since, otherwise a
+ * ProjectConflictError carrying the current version is thrown.
+ */
+export const updateProjectService = async (
+  id: string,
+  title: string,
+  content: string,
+  baseUpdatedAt?: string
+): Promise<Project> => {
+  // The database stamps updated_at itself
+  const updates = { title, content };
   
   try {
     console.log(`Updating project ${id} with data:`, updates);
-    const { data, error } = await supabase
+    let query = supabase
       .from('projects')
       .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
+      .eq('id', id);
+    
+    // The comparison happens inside the UPDATE, so two concurrent saves cannot both pass it
+    if (baseUpdatedAt) {
+      query = query.eq('updated_at', baseUpdatedAt);
+    }
+    
+    const { data, error } = await query.select().maybeSingle();
     
     if (error) {
       console.error("Error updating project:", error);
       throw error;
     }
     
+    if (!data) {
+      const current = await getProjectService(id);
+      if (!current) throw new Error("Project not found");
+
+      // RLS skips rows the user may not edit without an error, so no row is
+      // only a conflict when the project actually changed since the edit began
+      const changed = baseUpdatedAt && new Date(current.updatedAt).getTime() !== new Date(baseUpdatedAt).getTime();
+      if (!changed) {
+        console.warn(`Permission denied: cannot update project ${id}`);
+        throw new Error("You don't have permission to edit this project");
+      }
+
+      console.warn(`Rejected stale update of project ${id}`);
+      throw new ProjectConflictError(current);
+    }
+    
     console.log("Project updated successfully:", data);
     return formatProject(data);
   } catch (error) {
@@ -72,26 +107,67 @@ export const updateProjectService = async (id: string, title: string, content: s
   }
 };
 
+// Moves the project to the trash; it can be restored until it is purged
 export const deleteProjectService = async (id: string): Promise<void> => {
   try {
-    console.log(`Deleting project ${id}`);
-    const { error } = await supabase
-      .from('projects')
-      .delete()
-      .eq('id', id);
+    console.log(`Moving project ${id} to the trash`);
+    const { error } = await supabase.rpc('trash_project', { p_project_id: id });
     
     if (error) {
       console.error("Error deleting project:", error);
       throw error;
     }
     
-    console.log("Project deleted successfully");
+    console.log("Project moved to the trash successfully");
   } catch (error) {
     console.error("Error in deleteProjectService:", error);
     throw error;
   }
 };
 
+// Hands the projects to another user in a single transaction; all or none are transferred
+export const transferProjectOwnershipService = async (projects: Project[], newOwnerId: string): Promise<Project[]> => {
+  try {
+    console.log(`Transferring ${projects.length} project(s) to ${newOwnerId}`);
+    const { data, error } = await supabase.rpc('transfer_project_ownership', {
+      p_project_ids: projects.map(project => project.id),
+      p_new_owner_id: newOwnerId
+    });
+
+    if (error) {
+      console.error("Error transferring project ownership:", error);
+      throw error;
+    }
+
+    return data.map(formatProject);
+  } catch (error) {
+    console.error("Error in transferProjectOwnershipService:", error);
+    throw error;
+  }
+};
+
+// Every project the user owns that the caller can see, across organizations
+export const getProjectsByOwnerService = async (userId: string): Promise<Project[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('created_by', userId)
+      .is('deleted_at', null)
+      .order('title', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching projects by owner:", error);
+      throw error;
+    }
+
+    return data.map(formatProject);
+  } catch (error) {
+    console.error("Error in getProjectsByOwnerService:", error);
+    return [];
+  }
+};
+
 export const getProjectService = async (id: string): Promise<Project | null> => {
   try {
     console.log(`Fetching project ${id}`);
@@ -99,6 +175,7 @@ export const getProjectService = async (id: string): Promise<Project | null> =>
       .from('projects')
       .select('*')
       .eq('id', id)
+      .is('deleted_at', null)
       .maybeSingle();
     
     if (error) {
@@ -119,8 +196,8 @@ export const getProjectService = async (id: string): Promise<Project | null> =>
   }
 };
 
-export const getAllProjectsService = async (): Promise<Project[]> => {
-  console.log("Fetching all projects...");
+export const getAllProjectsService = async (orgId: string): Promise<Project[]> => {
+  console.log(`Fetching all projects in organization ${orgId}...`);
   
   try {
     // Add timeout to prevent hanging requests
@@ -131,6 +208,8 @@ export const getAllProjectsService = async (): Promise<Project[]> => {
     const fetchPromise = supabase
       .from('projects')
       .select('*')
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
       .order('updated_at', { ascending: false });
     
     // Race the fetch against a timeout
@@ -160,6 +239,93 @@ export const getAllProjectsService = async (): Promise<Project[]> => {
   }
 };
 
+// Columns of the project_list view each sort option orders by
+const SORT_COLUMNS: Record<ProjectSortField, string> = {
+  title: 'title',
+  created: 'created_at',
+  updated: 'updated_at',
+  author: 'author_name'
+};
+
+// Escapes the LIKE wildcards so search text is matched literally
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+export const getProjectsPageService = async (orgId: string, query: ProjectQuery): Promise<ProjectPage> => {
+  try {
+    console.log(`Fetching projects page in organization ${orgId}:`, query);
+    const offset = (query.page - 1) * query.pageSize;
+
+    // The view adds the author's name so the list can be sorted by it
+    let request = supabase
+      .from('project_list')
+      .select('*', { count: 'exact' })
+      .eq('org_id', orgId)
+      .is('deleted_at', null);
+
+    if (query.search?.trim()) request = request.ilike('title', `%${escapeLike(query.search.trim())}%`);
+    if (query.authorId) request = request.eq('created_by', query.authorId);
+    if (query.tagIds?.length) request = request.contains('tag_ids', query.tagIds);
+    // Date filters cover whole days in the viewer's local time zone
+    if (query.from) request = request.gte('updated_at', new Date(`${query.from}T00:00:00`).toISOString());
+    if (query.to) request = request.lte('updated_at', new Date(`${query.to}T23:59:59.999`).toISOString());
+
+    const { data, error, count } = await request
+      .order(SORT_COLUMNS[query.sort], { ascending: query.direction === 'asc', nullsFirst: false })
+      // Ties would otherwise shuffle rows between pages
+      .order('id', { ascending: true })
+      .range(offset, offset + query.pageSize - 1);
+
+    if (error) {
+      console.error("Error fetching projects page:", error);
+      throw error;
+    }
+
+    return {
+      projects: data.map(project => formatProject(project)),
+      total: count ?? 0
+    };
+  } catch (error) {
+    console.error("Exception in getProjectsPageService:", error);
+    throw error;
+  }
+};
+
+// Ranked full-text search over title, content and author name; sorting is by relevance
+export const searchProjectsService = async (orgId: string, query: ProjectQuery): Promise<ProjectSearchPage> => {
+  try {
+    console.log(`Searching projects in organization ${orgId}:`, query);
+    const { data, error } = await supabase.rpc('search_projects', {
+      p_org_id: orgId,
+      p_query: query.search?.trim() ?? '',
+      p_author_id: query.authorId ?? null,
+      p_from: query.from ? new Date(`${query.from}T00:00:00`).toISOString() : null,
+      p_to: query.to ? new Date(`${query.to}T23:59:59.999`).toISOString() : null,
+      p_tag_ids: query.tagIds?.length ? query.tagIds : null,
+      p_limit: query.pageSize,
+      p_offset: (query.page - 1) * query.pageSize
+    });
+
+    if (error) {
+      console.error("Error searching projects:", error);
+      throw error;
+    }
+
+    return {
+      results: data.map(row => ({
+        project: formatProject(row),
+        authorName: row.author_name ?? '',
+        rank: row.rank,
+        titleHighlight: row.title_highlight,
+        snippet: row.snippet
+      })),
+      total: data[0]?.total_count ?? 0
+    };
+  } catch (error) {
+    console.error("Exception in searchProjectsService:", error);
+    throw error;
+  }
+};
+
 export const getProjectWithAuthorService = async (id: string): Promise<ProjectWithAuthor | null> => {
   try {
     console.log(`Fetching project with author for id ${id}`);
@@ -168,6 +334,7 @@ export const getProjectWithAuthorService = async (id: string): Promise<ProjectWi
       .from('projects')
       .select('*')
       .eq('id', id)
+      .is('deleted_at', null)
       .maybeSingle();
     
     if (projectError) {
@@ -197,12 +364,16 @@ export const getProjectWithAuthorService = async (id: string): Promise<ProjectWi
       email: '', // We don't store email in profiles
       name: profileData.name,
       role: profileData.role as UserRole, // Cast the role to UserRole type
+      status: profileData.status as UserStatus,
+      capabilities: [],
       createdAt: profileData.created_at
     } : {
       id: projectData.created_by,
       email: '',
       name: 'Unknown user',
       role: 'Viewer' as UserRole, // Use a default UserRole
+      status: 'active',
+      capabilities: [],
       createdAt: ''
     };
     
@@ -212,9 +383,11 @@ export const getProjectWithAuthorService = async (id: string): Promise<ProjectWi
       id: projectData.id,
       title: projectData.title,
       content: projectData.content,
+      orgId: projectData.org_id,
       createdBy: projectData.created_by,
       createdAt: projectData.created_at,
       updatedAt: projectData.updated_at,
+      status: projectData.status as ProjectStatus,
       author
     };
   } catch (error) {
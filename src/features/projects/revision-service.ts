@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ProjectRevision } from "@/types/project";
+import { getProfileNamesService } from "./member-service";
+
+// Helper function to format a project revision from the database
+export const formatProjectRevision = (data: Tables<'project_revisions'>, authorName: string): ProjectRevision => {
+  return {
+    id: data.id,
+    projectId: data.project_id,
+    title: data.title,
+    content: data.content,
+    authorId: data.author_id,
+    authorName,
+    createdAt: data.created_at
+  };
+};
+
+// Revisions are written by a database trigger on every save, newest first
+export const getProjectRevisionsService = async (projectId: string): Promise<ProjectRevision[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('project_revisions')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching project revisions:", error);
+      throw error;
+    }
+
+    const authorIds = [...new Set(data.map(revision => revision.author_id).filter(Boolean))];
+    const names = await getProfileNamesService(authorIds);
+    return data.map(revision =>
+      formatProjectRevision(revision, names[revision.author_id ?? ''] || 'Unknown user')
+    );
+  } catch (error) {
+    console.error("Exception in getProjectRevisionsService:", error);
+    return [];
+  }
+};
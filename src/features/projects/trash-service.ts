@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Project, TrashedProject } from "@/types/project";
+import { getProfileNamesService } from "./member-service";
+import { formatProject } from "./project-service";
+
+// Used until the setting has been loaded
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The nightly job purges a project once it has been in the trash this long
+export const getPurgeDate = (deletedAt: string, retentionDays: number): string => {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString();
+};
+
+export const getTrashRetentionDaysService = async (): Promise<number> => {
+  try {
+    const { data, error } = await supabase
+      .from('trash_settings')
+      .select('retention_days')
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching trash retention:", error);
+      throw error;
+    }
+
+    return data?.retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (error) {
+    console.error("Exception in getTrashRetentionDaysService:", error);
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+};
+
+export const updateTrashRetentionDaysService = async (
+  retentionDays: number,
+  userId: string
+): Promise<void> => {
+  try {
+    console.log(`Changing trash retention to ${retentionDays} days`);
+    const { error } = await supabase
+      .from('trash_settings')
+      .update({ retention_days: retentionDays, updated_by: userId, updated_at: new Date().toISOString() })
+      .eq('id', true);
+
+    if (error) {
+      console.error("Error updating trash retention:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in updateTrashRetentionDaysService:", error);
+    throw error;
+  }
+};
+
+// Only projects the user may restore are visible in the trash, newest first
+export const getTrashedProjectsService = async (orgId: string, retentionDays: number): Promise<TrashedProject[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('org_id', orgId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching trashed projects:", error);
+      throw error;
+    }
+
+    const names = await getProfileNamesService([...new Set(data.map(project => project.deleted_by).filter(Boolean))]);
+    return data.map(project => ({
+      ...formatProject(project),
+      deletedAt: project.deleted_at,
+      deletedBy: project.deleted_by,
+      deletedByName: names[project.deleted_by] || 'Unknown user',
+      purgeAt: getPurgeDate(project.deleted_at, retentionDays)
+    }));
+  } catch (error) {
+    console.error("Exception in getTrashedProjectsService:", error);
+    throw error;
+  }
+};
+
+export const restoreProjectService = async (id: string): Promise<Project> => {
+  try {
+    console.log(`Restoring project ${id} from the trash`);
+    const { data, error } = await supabase.rpc('restore_project', { p_project_id: id });
+
+    if (error) {
+      console.error("Error restoring project:", error);
+      throw error;
+    }
+
+    return formatProject(data);
+  } catch (error) {
+    console.error("Exception in restoreProjectService:", error);
+    throw error;
+  }
+};
+
+// Permanently removes a project that is already in the trash
+export const purgeProjectService = async (project: Project): Promise<void> => {
+  try {
+    console.log(`Purging project ${project.id}`);
+    const { data, error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', project.id)
+      .not('deleted_at', 'is', null)
+      .select('id');
+
+    if (error) {
+      console.error("Error purging project:", error);
+      throw error;
+    }
+
+    // RLS filters out rows the user may not delete instead of raising an error
+    if (data.length === 0) {
+      throw new Error("You don't have permission to permanently delete this project");
+    }
+  } catch (error) {
+    console.error("Exception in purgeProjectService:", error);
+    throw error;
+  }
+};
@@ -1,13 +1,30 @@
 
-import { Project, ProjectWithAuthor } from "@/types/project";
+import { BulkActionResult, Project, ProjectMember, ProjectPage, ProjectQuery, ProjectRevision, ProjectSearchPage, ProjectWithAuthor } from "@/types/project";
+import { UserRole } from "@/types/auth";
 
 export interface ProjectContextType {
   projects: Project[];
   isLoading: boolean;
+  // Set when projects were created after the current page was loaded. The page
+  // itself is left alone, since a new project may not belong on it.
+  hasNewProjects: boolean;
   createProject: (title: string, content: string) => Promise<Project>;
-  updateProject: (id: string, title: string, content: string) => Promise<Project>;
+  updateProject: (id: string, title: string, content: string, baseUpdatedAt?: string) => Promise<Project>;
   deleteProject: (id: string) => Promise<void>;
+  // Moves each project to the trash independently and reports the outcome once
+  deleteProjects: (projects: Project[]) => Promise<BulkActionResult>;
+  // Transfers all of the projects or none of them
+  transferProjectOwnership: (projects: Project[], newOwnerId: string) => Promise<Project[]>;
+  getProjectsByOwner: (userId: string) => Promise<Project[]>;
   getProject: (id: string) => Promise<Project | null>;
   getAllProjects: () => Promise<Project[]>;
+  getProjectsPage: (query: ProjectQuery) => Promise<ProjectPage>;
+  searchProjects: (query: ProjectQuery) => Promise<ProjectSearchPage>;
   getProjectWithAuthor: (id: string) => Promise<ProjectWithAuthor | null>;
+  getProjectMembers: (projectId: string) => Promise<ProjectMember[]>;
+  addProjectMember: (projectId: string, userId: string, role: UserRole) => Promise<ProjectMember>;
+  updateProjectMemberRole: (projectId: string, userId: string, role: UserRole) => Promise<ProjectMember>;
+  removeProjectMember: (projectId: string, userId: string) => Promise<void>;
+  getProjectRevisions: (projectId: string) => Promise<ProjectRevision[]>;
+  restoreProjectRevision: (revision: ProjectRevision, baseUpdatedAt?: string) => Promise<Project>;
 }
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { assertCan } from "@/features/permissions/policy";
+import { Project, TrashedProject } from "@/types/project";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getPurgeDate,
+  getTrashedProjectsService,
+  getTrashRetentionDaysService,
+  purgeProjectService,
+  restoreProjectService,
+  updateTrashRetentionDaysService,
+} from "./trash-service";
+
+const reportError = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    toast.error(error.message);
+  } else {
+    toast.error(fallback);
+  }
+};
+
+// Loads the active organization's trash and exposes the actions on it
+export const useTrash = () => {
+  const { user } = useAuth();
+  const { activeOrganization } = useOrganizations();
+  const activeOrganizationId = activeOrganization?.id;
+  const [trashedProjects, setTrashedProjects] = useState<TrashedProject[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshTrash = useCallback(async () => {
+    if (!activeOrganizationId) {
+      setTrashedProjects([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const days = await getTrashRetentionDaysService();
+      setRetentionDays(days);
+      setTrashedProjects(await getTrashedProjectsService(activeOrganizationId, days));
+    } catch (error) {
+      toast.error("Failed to load the trash");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeOrganizationId]);
+
+  useEffect(() => {
+    refreshTrash();
+  }, [refreshTrash]);
+
+  const restoreProject = async (project: TrashedProject): Promise<Project> => {
+    try {
+      assertCan(user, "project:restore", project);
+
+      const restored = await restoreProjectService(project.id);
+      setTrashedProjects(prev => prev.filter(p => p.id !== project.id));
+      toast.success(`"${restored.title}" restored`);
+      return restored;
+    } catch (error) {
+      reportError(error, "Failed to restore project");
+      throw error;
+    }
+  };
+
+  const purgeProject = async (project: TrashedProject): Promise<void> => {
+    try {
+      assertCan(user, "project:purge", project);
+
+      await purgeProjectService(project);
+      setTrashedProjects(prev => prev.filter(p => p.id !== project.id));
+      toast.success(`"${project.title}" permanently deleted`);
+    } catch (error) {
+      reportError(error, "Failed to delete project");
+      throw error;
+    }
+  };
+
+  const updateRetentionDays = async (days: number): Promise<void> => {
+    try {
+      assertCan(user, "trash:configure");
+      if (!Number.isInteger(days) || days < 1) {
+        throw new Error("Retention must be a whole number of days");
+      }
+
+      await updateTrashRetentionDaysService(days, user.id);
+      setRetentionDays(days);
+      // Purge dates follow the new retention period straight away
+      setTrashedProjects(prev => prev.map(p => ({ ...p, purgeAt: getPurgeDate(p.deletedAt, days) })));
+      toast.success(`Deleted projects are now kept for ${days} day${days === 1 ? "" : "s"}`);
+    } catch (error) {
+      reportError(error, "Failed to update the retention period");
+      throw error;
+    }
+  };
+
+  return {
+    trashedProjects,
+    retentionDays,
+    isLoading,
+    refreshTrash,
+    restoreProject,
+    purgeProject,
+    updateRetentionDays,
+  };
+};
@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { UserRole } from "@/types/auth";
+import { RegistrationDomain, RegistrationMode, RegistrationPolicy, RegistrationSettings } from "@/types/registration";
+
+// Helper function to format an allowlisted domain from the database
+export const formatRegistrationDomain = (data: Tables<'registration_domains'>): RegistrationDomain => {
+  return {
+    domain: data.domain,
+    defaultRole: data.default_role as UserRole | null,
+    createdAt: data.created_at
+  };
+};
+
+/**
+ * Loads the policy for the sign-up page. When it cannot be loaded the page
+ * behaves as if registration were open; the database still enforces the
+ * real policy when the account is created.
+ */
+export const getRegistrationPolicyService = async (): Promise<RegistrationPolicy> => {
+  try {
+    const { data, error } = await supabase.rpc('get_registration_policy');
+
+    if (error) {
+      console.error("Error fetching registration policy:", error);
+      throw error;
+    }
+
+    const row = data?.[0];
+    return {
+      mode: (row?.mode ?? "open") as RegistrationMode,
+      domains: row?.domains ?? []
+    };
+  } catch (error) {
+    console.error("Exception in getRegistrationPolicyService:", error);
+    return { mode: "open", domains: [] };
+  }
+};
+
+export const getRegistrationSettingsService = async (): Promise<RegistrationSettings> => {
+  try {
+    const [settingsResult, domainsResult] = await Promise.all([
+      supabase.from('registration_settings').select('*').single(),
+      supabase.from('registration_domains').select('*').order('domain', { ascending: true })
+    ]);
+
+    if (settingsResult.error) {
+      console.error("Error fetching registration settings:", settingsResult.error);
+      throw settingsResult.error;
+    }
+
+    if (domainsResult.error) {
+      console.error("Error fetching registration domains:", domainsResult.error);
+      throw domainsResult.error;
+    }
+
+    return {
+      mode: settingsResult.data.mode as RegistrationMode,
+      updatedAt: settingsResult.data.updated_at,
+      domains: domainsResult.data.map(formatRegistrationDomain)
+    };
+  } catch (error) {
+    console.error("Exception in getRegistrationSettingsService:", error);
+    throw error;
+  }
+};
+
+export const updateRegistrationModeService = async (
+  mode: RegistrationMode,
+  userId: string
+): Promise<void> => {
+  try {
+    console.log(`Changing registration policy to ${mode}`);
+    const { error } = await supabase
+      .from('registration_settings')
+      .update({ mode, updated_by: userId, updated_at: new Date().toISOString() })
+      .eq('id', true);
+
+    if (error) {
+      console.error("Error updating registration policy:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in updateRegistrationModeService:", error);
+    throw error;
+  }
+};
+
+export const addRegistrationDomainService = async (
+  domain: string,
+  defaultRole: UserRole | null
+): Promise<RegistrationDomain> => {
+  try {
+    const { data, error } = await supabase
+      .from('registration_domains')
+      .insert({ domain, default_role: defaultRole })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error adding registration domain:", error);
+      // 23505: the domain is already on the allowlist
+      if (error.code === '23505') {
+        throw new Error(`${domain} is already allowlisted`);
+      }
+      throw error;
+    }
+
+    return formatRegistrationDomain(data);
+  } catch (error) {
+    console.error("Exception in addRegistrationDomainService:", error);
+    throw error;
+  }
+};
+
+export const updateRegistrationDomainService = async (
+  domain: RegistrationDomain,
+  defaultRole: UserRole | null
+): Promise<RegistrationDomain> => {
+  try {
+    const { data, error } = await supabase
+      .from('registration_domains')
+      .update({ default_role: defaultRole })
+      .eq('domain', domain.domain)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating registration domain:", error);
+      throw error;
+    }
+
+    return formatRegistrationDomain(data);
+  } catch (error) {
+    console.error("Exception in updateRegistrationDomainService:", error);
+    throw error;
+  }
+};
+
+export const removeRegistrationDomainService = async (domain: RegistrationDomain): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('registration_domains')
+      .delete()
+      .eq('domain', domain.domain);
+
+    if (error) {
+      console.error("Error removing registration domain:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in removeRegistrationDomainService:", error);
+    throw error;
+  }
+};
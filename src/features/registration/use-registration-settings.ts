@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { assertCan, can } from "@/features/permissions/policy";
+import { UserRole } from "@/types/auth";
+import { normalizeDomain, RegistrationDomain, RegistrationMode, RegistrationSettings } from "@/types/registration";
+import {
+  addRegistrationDomainService,
+  getRegistrationSettingsService,
+  removeRegistrationDomainService,
+  updateRegistrationDomainService,
+  updateRegistrationModeService,
+} from "./registration-service";
+
+const reportError = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    toast.error(error.message);
+  } else {
+    toast.error(fallback);
+  }
+};
+
+// Loads the registration policy for user managers and exposes the actions on it
+export const useRegistrationSettings = () => {
+  const { user } = useAuth();
+  const canManage = can(user, "registration:manage");
+  const [settings, setSettings] = useState<RegistrationSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshSettings = useCallback(async () => {
+    if (!canManage) {
+      setSettings(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setSettings(await getRegistrationSettingsService());
+    } catch (error) {
+      toast.error("Failed to load the registration policy");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canManage]);
+
+  useEffect(() => {
+    refreshSettings();
+  }, [refreshSettings]);
+
+  const setDomains = (update: (domains: RegistrationDomain[]) => RegistrationDomain[]) => {
+    setSettings(prev => prev && { ...prev, domains: update(prev.domains) });
+  };
+
+  const updateMode = async (mode: RegistrationMode): Promise<void> => {
+    if (!settings) return;
+
+    try {
+      assertCan(user, "registration:manage");
+
+      await updateRegistrationModeService(mode, user.id);
+      setSettings(prev => prev && { ...prev, mode, updatedAt: new Date().toISOString() });
+      toast.success("Registration policy updated");
+    } catch (error) {
+      reportError(error, "Failed to update the registration policy");
+      throw error;
+    }
+  };
+
+  const addDomain = async (domain: string, defaultRole: UserRole | null): Promise<RegistrationDomain> => {
+    try {
+      assertCan(user, "registration:manage");
+
+      const normalized = normalizeDomain(domain);
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(normalized)) {
+        throw new Error(`"${domain}" is not a valid domain`);
+      }
+
+      const added = await addRegistrationDomainService(normalized, defaultRole);
+      setDomains(domains => [...domains, added].sort((a, b) => a.domain.localeCompare(b.domain)));
+      return added;
+    } catch (error) {
+      reportError(error, "Failed to add domain");
+      throw error;
+    }
+  };
+
+  const updateDomain = async (domain: RegistrationDomain, defaultRole: UserRole | null): Promise<RegistrationDomain> => {
+    try {
+      assertCan(user, "registration:manage");
+
+      const updated = await updateRegistrationDomainService(domain, defaultRole);
+      setDomains(domains => domains.map(d => d.domain === updated.domain ? updated : d));
+      return updated;
+    } catch (error) {
+      reportError(error, "Failed to update domain");
+      throw error;
+    }
+  };
+
+  const removeDomain = async (domain: RegistrationDomain): Promise<void> => {
+    try {
+      assertCan(user, "registration:manage");
+
+      await removeRegistrationDomainService(domain);
+      setDomains(domains => domains.filter(d => d.domain !== domain.domain));
+    } catch (error) {
+      reportError(error, "Failed to remove domain");
+      throw error;
+    }
+  };
+
+  return {
+    settings,
+    isLoading,
+    refreshSettings,
+    updateMode,
+    addDomain,
+    updateDomain,
+    removeDomain,
+  };
+};
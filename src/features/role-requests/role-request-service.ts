@@ -0,0 +1,176 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { User, UserRole } from "@/types/auth";
+import { RoleRequest, RoleRequestStatus } from "@/types/role-request";
+import { toRoleChangeError } from "@/features/users/errors";
+
+type ProfileSummary = Pick<Tables<'profiles'>, 'name' | 'role'>;
+
+// Helper function to format a role request from the database
+export const formatRoleRequest = (
+  data: Tables<'role_requests'>,
+  profiles: Record<string, ProfileSummary>
+): RoleRequest => {
+  return {
+    id: data.id,
+    requesterId: data.requester_id,
+    requesterName: profiles[data.requester_id]?.name || 'Unknown user',
+    currentRole: profiles[data.requester_id]?.role ?? null,
+    role: data.role as UserRole,
+    justification: data.justification,
+    status: data.status as RoleRequestStatus,
+    createdAt: data.created_at,
+    decidedBy: data.decided_by,
+    decidedByName: data.decided_by ? profiles[data.decided_by]?.name || 'Unknown user' : null,
+    decidedAt: data.decided_at,
+    decisionComment: data.decision_comment,
+    decisionSeenAt: data.decision_seen_at
+  };
+};
+
+// Names for both sides of a request, plus the requester's current role
+const getProfileSummariesService = async (userIds: string[]): Promise<Record<string, ProfileSummary>> => {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, name, role')
+    .in('id', userIds);
+
+  if (error) {
+    console.error("Error fetching profile summaries:", error);
+    return {};
+  }
+
+  const profiles: Record<string, ProfileSummary> = {};
+  data.forEach(profile => {
+    profiles[profile.id] = { name: profile.name, role: profile.role };
+  });
+  return profiles;
+};
+
+const formatRoleRequests = async (rows: Tables<'role_requests'>[]): Promise<RoleRequest[]> => {
+  const userIds = rows.flatMap(row => row.decided_by ? [row.requester_id, row.decided_by] : [row.requester_id]);
+  const profiles = await getProfileSummariesService([...new Set(userIds)]);
+  return rows.map(row => formatRoleRequest(row, profiles));
+};
+
+// Newest first. Without a requester, every request the viewer can see.
+export const getRoleRequestsService = async (requesterId?: string): Promise<RoleRequest[]> => {
+  try {
+    let query = supabase
+      .from('role_requests')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (requesterId) {
+      query = query.eq('requester_id', requesterId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching role requests:", error);
+      throw error;
+    }
+
+    return await formatRoleRequests(data);
+  } catch (error) {
+    console.error("Exception in getRoleRequestsService:", error);
+    return [];
+  }
+};
+
+// Decisions the requester has not been shown yet
+export const getUnseenRoleRequestDecisionsService = async (requesterId: string): Promise<RoleRequest[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('role_requests')
+      .select('*')
+      .eq('requester_id', requesterId)
+      .in('status', ['approved', 'denied'])
+      .is('decision_seen_at', null)
+      .order('decided_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching role request decisions:", error);
+      throw error;
+    }
+
+    return await formatRoleRequests(data);
+  } catch (error) {
+    console.error("Exception in getUnseenRoleRequestDecisionsService:", error);
+    return [];
+  }
+};
+
+export const requestRoleService = async (requester: User, role: UserRole, justification: string): Promise<RoleRequest> => {
+  try {
+    const { data, error } = await supabase.rpc('request_role', {
+      p_role: role,
+      p_justification: justification
+    });
+
+    if (error) {
+      console.error("Error requesting role:", error);
+      throw toRoleChangeError(error);
+    }
+
+    return formatRoleRequest(data, { [requester.id]: { name: requester.name, role: requester.role } });
+  } catch (error) {
+    console.error("Exception in requestRoleService:", error);
+    throw error;
+  }
+};
+
+export const cancelRoleRequestService = async (request: RoleRequest): Promise<RoleRequest> => {
+  try {
+    const { data, error } = await supabase.rpc('cancel_role_request', { p_request_id: request.id });
+
+    if (error) {
+      console.error("Error cancelling role request:", error);
+      throw toRoleChangeError(error);
+    }
+
+    return { ...request, status: data.status as RoleRequestStatus };
+  } catch (error) {
+    console.error("Exception in cancelRoleRequestService:", error);
+    throw error;
+  }
+};
+
+// Approving goes through change_user_role in the database, with its usual checks
+export const decideRoleRequestService = async (
+  request: RoleRequest,
+  approve: boolean,
+  comment: string
+): Promise<RoleRequest> => {
+  try {
+    const { data, error } = await supabase.rpc('decide_role_request', {
+      p_request_id: request.id,
+      p_approve: approve,
+      p_comment: comment
+    });
+
+    if (error) {
+      console.error("Error deciding role request:", error);
+      throw toRoleChangeError(error);
+    }
+
+    const [decided] = await formatRoleRequests([data]);
+    return decided;
+  } catch (error) {
+    console.error("Exception in decideRoleRequestService:", error);
+    throw error;
+  }
+};
+
+export const acknowledgeRoleRequestsService = async (requestIds: string[]): Promise<void> => {
+  if (requestIds.length === 0) return;
+
+  const { error } = await supabase.rpc('acknowledge_role_requests', { p_request_ids: requestIds });
+
+  if (error) {
+    console.error("Error acknowledging role requests:", error);
+  }
+};
@@ -0,0 +1,62 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { supabase } from "@/integrations/supabase/client";
+import { acknowledgeRoleRequestsService, getUnseenRoleRequestDecisionsService } from "./role-request-service";
+
+/**
+ * Tells the signed-in user about decisions on their role requests: the
+ * ones made while they were away when the app opens, and new ones as they
+ * happen. Each decision is shown once.
+ */
+export const useRoleRequestNotifications = () => {
+  // An administrator viewing as someone else still gets their own decisions
+  const { realUser, refreshUser } = useAuth();
+  const userId = realUser?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let isMounted = true;
+
+    const notify = async () => {
+      const decisions = await getUnseenRoleRequestDecisionsService(userId);
+      if (!isMounted || decisions.length === 0) return;
+
+      decisions.forEach(request => {
+        const options = {
+          description: request.decisionComment ?? undefined,
+          duration: 10000,
+        };
+        if (request.status === "approved") {
+          toast.success(`${request.decidedByName} approved your request for the ${request.role} role`, options);
+        } else {
+          toast.error(`${request.decidedByName} denied your request for the ${request.role} role`, options);
+        }
+      });
+
+      await acknowledgeRoleRequestsService(decisions.map(request => request.id));
+      if (decisions.some(request => request.status === "approved")) {
+        await refreshUser();
+      }
+    };
+
+    notify();
+
+    const channel = supabase
+      .channel(`role-request-decisions:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'role_requests', filter: `requester_id=eq.${userId}` },
+        () => {
+          notify();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isMounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refreshUser]);
+};
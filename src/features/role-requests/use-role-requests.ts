@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { assertCan, can } from "@/features/permissions/policy";
+import { UserRole } from "@/types/auth";
+import { RoleRequest } from "@/types/role-request";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  cancelRoleRequestService,
+  decideRoleRequestService,
+  getRoleRequestsService,
+  requestRoleService,
+} from "./role-request-service";
+
+const reportError = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    toast.error(error.message);
+  } else {
+    toast.error(fallback);
+  }
+};
+
+/**
+ * Loads role requests and exposes the actions on them. "mine" is the
+ * signed-in user's own requests; "all" is the inbox for user managers.
+ * Both reload when a request changes elsewhere.
+ */
+export const useRoleRequests = (scope: "mine" | "all") => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const canDecide = can(user, "user:change-role");
+  const isVisible = scope === "mine" ? !!userId : canDecide;
+  const [requests, setRequests] = useState<RoleRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshRequests = useCallback(async () => {
+    if (!isVisible) {
+      setRequests([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setRequests(await getRoleRequestsService(scope === "mine" ? userId : undefined));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isVisible, scope, userId]);
+
+  useEffect(() => {
+    refreshRequests();
+  }, [refreshRequests]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    const channel = supabase
+      .channel(`role-requests:${scope}:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'role_requests',
+          ...(scope === "mine" && { filter: `requester_id=eq.${userId}` }),
+        },
+        () => {
+          refreshRequests();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isVisible, scope, userId, refreshRequests]);
+
+  const replaceRequest = (request: RoleRequest) => {
+    setRequests(prev => prev.map(r => r.id === request.id ? request : r));
+  };
+
+  const requestRole = async (role: UserRole, justification: string): Promise<RoleRequest> => {
+    try {
+      if (!user) throw new Error("Sign in to request a role");
+
+      const request = await requestRoleService(user, role, justification);
+      setRequests(prev => [request, ...prev.filter(r => r.id !== request.id)]);
+      toast.success(`Requested the ${role} role`, { description: "You'll be notified when it is decided" });
+      return request;
+    } catch (error) {
+      reportError(error, "Failed to request role");
+      throw error;
+    }
+  };
+
+  const cancelRequest = async (request: RoleRequest): Promise<void> => {
+    try {
+      replaceRequest(await cancelRoleRequestService(request));
+      toast.success("Role request cancelled");
+    } catch (error) {
+      reportError(error, "Failed to cancel role request");
+      throw error;
+    }
+  };
+
+  const decideRequest = async (request: RoleRequest, approve: boolean, comment: string): Promise<void> => {
+    try {
+      assertCan(user, "user:change-role", { id: request.requesterId });
+
+      replaceRequest(await decideRoleRequestService(request, approve, comment));
+      toast.success(approve
+        ? `${request.requesterName} now has the ${request.role} role`
+        : `Role request from ${request.requesterName} denied`);
+    } catch (error) {
+      reportError(error, approve ? "Failed to approve role request" : "Failed to deny role request");
+      throw error;
+    }
+  };
+
+  return {
+    requests,
+    pendingRequest: requests.find(r => r.status === "pending" && r.requesterId === userId) ?? null,
+    isLoading,
+    refreshRequests,
+    requestRole,
+    cancelRequest,
+    decideRequest,
+  };
+};
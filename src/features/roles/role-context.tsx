@@ -0,0 +1,129 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { Role, RoleInput } from "@/types/role";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { assertCan } from "@/features/permissions/policy";
+import { RoleContextType } from "./types";
+import {
+  getAllRolesService,
+  createRoleService,
+  updateRoleService,
+  deleteRoleService
+} from "./role-service";
+
+const emptyRole: Role = { name: "", description: "", capabilities: [], isSystem: false, createdAt: "" };
+
+const RoleContext = createContext<RoleContextType>({
+  roles: [],
+  isLoading: false,
+  getRole: () => undefined,
+  refreshRoles: async () => [],
+  createRole: async () => emptyRole,
+  updateRole: async () => emptyRole,
+  deleteRole: async () => {},
+});
+
+export const RoleProvider = ({ children }: { children: React.ReactNode }) => {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user, isAuthenticated } = useAuth();
+
+  const refreshRoles = useCallback(async (): Promise<Role[]> => {
+    setIsLoading(true);
+
+    try {
+      const fetchedRoles = await getAllRolesService();
+      setRoles(fetchedRoles);
+      return fetchedRoles;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the role catalogue once the user is signed in
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshRoles();
+    } else {
+      setRoles([]);
+    }
+  }, [isAuthenticated, refreshRoles]);
+
+  const getRole = (name: string): Role | undefined => {
+    return roles.find(role => role.name === name);
+  };
+
+  const createRole = async (input: RoleInput): Promise<Role> => {
+    try {
+      assertCan(user, "role:manage");
+
+      const role = await createRoleService(input);
+      setRoles(prev => [...prev, role]);
+
+      toast.success(`Role "${role.name}" created`);
+      return role;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to create role");
+      }
+      throw error;
+    }
+  };
+
+  const updateRole = async (name: string, input: RoleInput): Promise<Role> => {
+    try {
+      assertCan(user, "role:manage");
+
+      const role = await updateRoleService(name, input);
+      setRoles(prev => prev.map(r => r.name === name ? role : r));
+
+      toast.success(`Role "${role.name}" updated`);
+      return role;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to update role");
+      }
+      throw error;
+    }
+  };
+
+  const deleteRole = async (name: string): Promise<void> => {
+    try {
+      assertCan(user, "role:manage");
+
+      await deleteRoleService(name);
+      setRoles(prev => prev.filter(r => r.name !== name));
+
+      toast.success(`Role "${name}" deleted`);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to delete role");
+      }
+      throw error;
+    }
+  };
+
+  return (
+    <RoleContext.Provider
+      value={{
+        roles,
+        isLoading,
+        getRole,
+        refreshRoles,
+        createRole,
+        updateRole,
+        deleteRole,
+      }}
+    >
+      {children}
+    </RoleContext.Provider>
+  );
+};
+
+export const useRoles = () => useContext(RoleContext);
@@ -0,0 +1,154 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Capability, Role, RoleInput } from "@/types/role";
+
+// Helper function to format a role from the database
+export const formatRole = (data: Tables<'roles'>): Role => {
+  return {
+    name: data.name,
+    description: data.description,
+    capabilities: (data.capabilities || []) as Capability[],
+    isSystem: data.is_system,
+    createdAt: data.created_at
+  };
+};
+
+export const getAllRolesService = async (): Promise<Role[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('roles')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching roles:", error);
+      throw error;
+    }
+
+    return (data || []).map(role => formatRole(role));
+  } catch (error) {
+    console.error("Exception in getAllRolesService:", error);
+    return [];
+  }
+};
+
+export const getRoleCapabilitiesService = async (name: string): Promise<Capability[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('roles')
+      .select('capabilities')
+      .eq('name', name)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching role capabilities:", error);
+      return [];
+    }
+
+    return (data?.capabilities || []) as Capability[];
+  } catch (error) {
+    console.error("Exception in getRoleCapabilitiesService:", error);
+    return [];
+  }
+};
+
+// Resolves the capabilities of several roles at once, keyed by role name
+export const getCapabilitiesByRoleService = async (names: string[]): Promise<Record<string, Capability[]>> => {
+  const uniqueNames = [...new Set(names)];
+  if (uniqueNames.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase
+      .from('roles')
+      .select('name, capabilities')
+      .in('name', uniqueNames);
+
+    if (error) {
+      console.error("Error fetching role capabilities:", error);
+      return {};
+    }
+
+    const capabilities: Record<string, Capability[]> = {};
+    data.forEach(role => {
+      capabilities[role.name] = (role.capabilities || []) as Capability[];
+    });
+    return capabilities;
+  } catch (error) {
+    console.error("Exception in getCapabilitiesByRoleService:", error);
+    return {};
+  }
+};
+
+export const createRoleService = async (input: RoleInput): Promise<Role> => {
+  try {
+    console.log("Creating role with data:", input);
+    const { data, error } = await supabase
+      .from('roles')
+      .insert({
+        name: input.name,
+        description: input.description,
+        capabilities: input.capabilities
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating role:", error);
+      throw error;
+    }
+
+    return formatRole(data);
+  } catch (error) {
+    console.error("Error in createRoleService:", error);
+    throw error;
+  }
+};
+
+export const updateRoleService = async (name: string, input: RoleInput): Promise<Role> => {
+  try {
+    console.log(`Updating role ${name} with data:`, input);
+    // Renames cascade to profiles.role through the foreign key
+    const { data, error } = await supabase
+      .from('roles')
+      .update({
+        name: input.name,
+        description: input.description,
+        capabilities: input.capabilities
+      })
+      .eq('name', name)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating role:", error);
+      throw error;
+    }
+
+    return formatRole(data);
+  } catch (error) {
+    console.error("Error in updateRoleService:", error);
+    throw error;
+  }
+};
+
+export const deleteRoleService = async (name: string): Promise<void> => {
+  try {
+    console.log(`Deleting role ${name}`);
+    const { error } = await supabase
+      .from('roles')
+      .delete()
+      .eq('name', name);
+
+    if (error) {
+      console.error("Error deleting role:", error);
+      // 23503: the role is still assigned to at least one profile
+      if (error.code === '23503') {
+        throw new Error(`The ${name} role is still assigned to users`);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in deleteRoleService:", error);
+    throw error;
+  }
+};
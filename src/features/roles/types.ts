@@ -0,0 +1,11 @@
+import { Role, RoleInput } from "@/types/role";
+
+export interface RoleContextType {
+  roles: Role[];
+  isLoading: boolean;
+  getRole: (name: string) => Role | undefined;
+  refreshRoles: () => Promise<Role[]>;
+  createRole: (input: RoleInput) => Promise<Role>;
+  updateRole: (name: string, input: RoleInput) => Promise<Role>;
+  deleteRole: (name: string) => Promise<void>;
+}
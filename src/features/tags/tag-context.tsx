@@ -0,0 +1,216 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { assertCan } from "@/features/permissions/policy";
+import { BulkActionResult, Project } from "@/types/project";
+import { Tag, TagInput } from "@/types/tag";
+import { TagContextType } from "./types";
+import {
+  getTagsService,
+  createTagService,
+  updateTagService,
+  mergeTagsService,
+  deleteTagService,
+  getProjectTagIdsService,
+  setProjectTagsService,
+  addTagToProjectService,
+  removeTagFromProjectService
+} from "./tag-service";
+
+const emptyTag: Tag = { id: "", orgId: "", name: "", color: "gray", createdBy: "", createdAt: "" };
+
+const TagContext = createContext<TagContextType>({
+  tags: [],
+  isLoading: false,
+  getTag: () => undefined,
+  createTag: async () => emptyTag,
+  updateTag: async () => emptyTag,
+  mergeTags: async () => {},
+  deleteTag: async () => {},
+  getProjectTagIds: async () => ({}),
+  setProjectTags: async () => {},
+  tagProjects: async () => ({ succeeded: [], failed: [] }),
+});
+
+const sortByName = (tags: Tag[]) => [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+export const TagProvider = ({ children }: { children: React.ReactNode }) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { activeOrganization } = useOrganizations();
+  const activeOrganizationId = activeOrganization?.id;
+
+  // Every organization has its own vocabulary
+  useEffect(() => {
+    if (!activeOrganizationId) {
+      setTags([]);
+      return;
+    }
+
+    let isMounted = true;
+    setIsLoading(true);
+    getTagsService(activeOrganizationId).then(fetchedTags => {
+      if (isMounted) {
+        setTags(fetchedTags);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [activeOrganizationId]);
+
+  const getTag = (id: string): Tag | undefined => {
+    return tags.find(tag => tag.id === id);
+  };
+
+  const assertCanManageTags = () => {
+    if (!activeOrganizationId) throw new Error("Select an organization first");
+    assertCan(user, "tag:manage", { orgId: activeOrganizationId });
+  };
+
+  const createTag = async (input: TagInput): Promise<Tag> => {
+    try {
+      assertCanManageTags();
+
+      const tag = await createTagService(activeOrganizationId, input, user.id);
+      setTags(prev => sortByName([...prev, tag]));
+
+      toast.success(`Tag "${tag.name}" created`);
+      return tag;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to create tag");
+      }
+      throw error;
+    }
+  };
+
+  const updateTag = async (tag: Tag, input: TagInput): Promise<Tag> => {
+    try {
+      assertCanManageTags();
+
+      const updated = await updateTagService(tag, input);
+      setTags(prev => sortByName(prev.map(t => t.id === updated.id ? updated : t)));
+
+      toast.success(`Tag "${updated.name}" updated`);
+      return updated;
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to update tag");
+      }
+      throw error;
+    }
+  };
+
+  const mergeTags = async (source: Tag, target: Tag): Promise<void> => {
+    try {
+      assertCanManageTags();
+
+      const moved = await mergeTagsService(source, target);
+      setTags(prev => prev.filter(t => t.id !== source.id));
+
+      toast.success(`"${source.name}" merged into "${target.name}" (${moved} project${moved === 1 ? "" : "s"} retagged)`);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to merge tags");
+      }
+      throw error;
+    }
+  };
+
+  const deleteTag = async (tag: Tag): Promise<void> => {
+    try {
+      assertCanManageTags();
+
+      await deleteTagService(tag);
+      setTags(prev => prev.filter(t => t.id !== tag.id));
+
+      toast.success(`Tag "${tag.name}" deleted`);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to delete tag");
+      }
+      throw error;
+    }
+  };
+
+  const getProjectTagIds = useCallback(async (projectIds: string[]): Promise<Record<string, string[]>> => {
+    return await getProjectTagIdsService(projectIds);
+  }, []);
+
+  const setProjectTags = async (project: Project, currentTagIds: string[], tagIds: string[]): Promise<void> => {
+    try {
+      assertCan(user, "project:tag", project);
+
+      const toTags = (ids: string[]) => ids.map(id => tags.find(tag => tag.id === id)).filter(Boolean);
+      await setProjectTagsService(project, toTags(currentTagIds), toTags(tagIds), user.id);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to update tags");
+      }
+      throw error;
+    }
+  };
+
+  const tagProjects = async (projects: Project[], tag: Tag, mode: "add" | "remove"): Promise<BulkActionResult> => {
+    const result: BulkActionResult = { succeeded: [], failed: [] };
+
+    for (const project of projects) {
+      try {
+        assertCan(user, "project:tag", project);
+        if (mode === "add") {
+          await addTagToProjectService(project, tag, user.id);
+        } else {
+          await removeTagFromProjectService(project, tag);
+        }
+        result.succeeded.push(project);
+      } catch (error) {
+        result.failed.push({ project, error: error instanceof Error ? error.message : "Failed to update tags" });
+      }
+    }
+
+    const count = result.succeeded.length;
+    if (count > 0) {
+      toast.success(`"${tag.name}" ${mode === "add" ? "added to" : "removed from"} ${count} project${count === 1 ? "" : "s"}`);
+    }
+    if (result.failed.length > 0) {
+      toast.error(`Could not update ${result.failed.map(({ project }) => `"${project.title}"`).join(", ")}`);
+    }
+    return result;
+  };
+
+  return (
+    <TagContext.Provider
+      value={{
+        tags,
+        isLoading,
+        getTag,
+        createTag,
+        updateTag,
+        mergeTags,
+        deleteTag,
+        getProjectTagIds,
+        setProjectTags,
+        tagProjects,
+      }}
+    >
+      {children}
+    </TagContext.Provider>
+  );
+};
+
+export const useTags = () => useContext(TagContext);
@@ -0,0 +1,227 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Project } from "@/types/project";
+import { Tag, TagColor, TagInput } from "@/types/tag";
+
+// Helper function to format a tag from the database
+export const formatTag = (data: Tables<'tags'>): Tag => {
+  return {
+    id: data.id,
+    orgId: data.org_id,
+    name: data.name,
+    color: data.color as TagColor,
+    createdBy: data.created_by,
+    createdAt: data.created_at
+  };
+};
+
+export const getTagsService = async (orgId: string): Promise<Tag[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching tags:", error);
+      throw error;
+    }
+
+    return data.map(formatTag);
+  } catch (error) {
+    console.error("Exception in getTagsService:", error);
+    return [];
+  }
+};
+
+export const createTagService = async (orgId: string, input: TagInput, userId: string): Promise<Tag> => {
+  try {
+    console.log(`Creating tag "${input.name}"`);
+    const { data, error } = await supabase
+      .from('tags')
+      .insert({ org_id: orgId, name: input.name.trim(), color: input.color, created_by: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating tag:", error);
+      // 23505: the unique index on lower(name) already has this name
+      if (error.code === '23505') {
+        throw new Error(`A tag named "${input.name.trim()}" already exists`);
+      }
+      throw error;
+    }
+
+    return formatTag(data);
+  } catch (error) {
+    console.error("Exception in createTagService:", error);
+    throw error;
+  }
+};
+
+// Renames and recolors; projects keep the tag because they reference its id
+export const updateTagService = async (tag: Tag, input: TagInput): Promise<Tag> => {
+  try {
+    const { data, error } = await supabase
+      .from('tags')
+      .update({ name: input.name.trim(), color: input.color })
+      .eq('id', tag.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating tag:", error);
+      // 23505: the unique index on lower(name) already has this name
+      if (error.code === '23505') {
+        throw new Error(`A tag named "${input.name.trim()}" already exists`);
+      }
+      throw error;
+    }
+
+    return formatTag(data);
+  } catch (error) {
+    console.error("Exception in updateTagService:", error);
+    throw error;
+  }
+};
+
+// Returns the number of projects that gained the target tag
+export const mergeTagsService = async (source: Tag, target: Tag): Promise<number> => {
+  try {
+    console.log(`Merging tag "${source.name}" into "${target.name}"`);
+    const { data: moved, error } = await supabase.rpc('merge_tags', {
+      p_source_id: source.id,
+      p_target_id: target.id
+    });
+
+    if (error) {
+      console.error("Error merging tags:", error);
+      throw error;
+    }
+
+    return moved;
+  } catch (error) {
+    console.error("Exception in mergeTagsService:", error);
+    throw error;
+  }
+};
+
+export const deleteTagService = async (tag: Tag): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('tags')
+      .delete()
+      .eq('id', tag.id);
+
+    if (error) {
+      console.error("Error deleting tag:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in deleteTagService:", error);
+    throw error;
+  }
+};
+
+// Tag ids per project; projects without tags are left out
+export const getProjectTagIdsService = async (projectIds: string[]): Promise<Record<string, string[]>> => {
+  if (projectIds.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase
+      .from('project_tags')
+      .select('project_id, tag_id')
+      .in('project_id', projectIds);
+
+    if (error) {
+      console.error("Error fetching project tags:", error);
+      throw error;
+    }
+
+    const tagIds: Record<string, string[]> = {};
+    data.forEach(row => {
+      tagIds[row.project_id] = [...(tagIds[row.project_id] ?? []), row.tag_id];
+    });
+    return tagIds;
+  } catch (error) {
+    console.error("Exception in getProjectTagIdsService:", error);
+    return {};
+  }
+};
+
+// Adds and removes assignments so the project ends up with exactly `tags`
+export const setProjectTagsService = async (
+  project: Project,
+  currentTags: Tag[],
+  tags: Tag[],
+  userId: string
+): Promise<void> => {
+  try {
+    const added = tags.filter(tag => !currentTags.some(current => current.id === tag.id));
+    const removed = currentTags.filter(current => !tags.some(tag => tag.id === current.id));
+    if (added.length === 0 && removed.length === 0) return;
+
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from('project_tags')
+        .insert(added.map(tag => ({ project_id: project.id, tag_id: tag.id, added_by: userId })));
+
+      if (error) {
+        console.error("Error adding project tags:", error);
+        throw error;
+      }
+    }
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('project_tags')
+        .delete()
+        .eq('project_id', project.id)
+        .in('tag_id', removed.map(tag => tag.id));
+
+      if (error) {
+        console.error("Error removing project tags:", error);
+        throw error;
+      }
+    }
+  } catch (error) {
+    console.error("Exception in setProjectTagsService:", error);
+    throw error;
+  }
+};
+
+// Bulk variants touch one tag on many projects; assignments that already match are skipped
+export const addTagToProjectService = async (project: Project, tag: Tag, userId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('project_tags')
+      .upsert({ project_id: project.id, tag_id: tag.id, added_by: userId }, { onConflict: 'project_id,tag_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error("Error adding project tag:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in addTagToProjectService:", error);
+    throw error;
+  }
+};
+
+export const removeTagFromProjectService = async (project: Project, tag: Tag): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('project_tags')
+      .delete()
+      .eq('project_id', project.id)
+      .eq('tag_id', tag.id);
+
+    if (error) {
+      console.error("Error removing project tag:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in removeTagFromProjectService:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { BulkActionResult, Project } from "@/types/project";
+import { Tag, TagInput } from "@/types/tag";
+
+export interface TagContextType {
+  // The active organization's tags, sorted by name
+  tags: Tag[];
+  isLoading: boolean;
+  getTag: (id: string) => Tag | undefined;
+  createTag: (input: TagInput) => Promise<Tag>;
+  updateTag: (tag: Tag, input: TagInput) => Promise<Tag>;
+  // Moves the source tag's projects onto the target and deletes the source
+  mergeTags: (source: Tag, target: Tag) => Promise<void>;
+  deleteTag: (tag: Tag) => Promise<void>;
+  getProjectTagIds: (projectIds: string[]) => Promise<Record<string, string[]>>;
+  setProjectTags: (project: Project, currentTagIds: string[], tagIds: string[]) => Promise<void>;
+  // Adds or removes one tag on each project independently and reports the outcome once
+  tagProjects: (projects: Project[], tag: Tag, mode: "add" | "remove") => Promise<BulkActionResult>;
+}
@@ -0,0 +1,55 @@
+export type RoleChangeErrorCode =
+  | "not_allowed"
+  | "own_role"
+  | "escalation"
+  | "outranked"
+  | "unknown_role"
+  | "user_not_found"
+  | "last_admin"
+  | "admin_exists"
+  | "invalid_recovery_code"
+  | "invalid_expiry"
+  | "grant_not_found"
+  | "already_has_role"
+  | "request_pending"
+  | "request_closed"
+  | "read_only"
+  | "user_inactive";
+
+// The SQLSTATE codes the role functions raise for each rejection
+const ROLE_CHANGE_ERROR_CODES: Record<string, RoleChangeErrorCode> = {
+  RC001: "not_allowed",
+  RC002: "own_role",
+  RC003: "escalation",
+  RC004: "outranked",
+  RC005: "unknown_role",
+  RC006: "user_not_found",
+  RC007: "last_admin",
+  RC008: "admin_exists",
+  RC009: "invalid_recovery_code",
+  RC010: "invalid_expiry",
+  RC011: "grant_not_found",
+  RC012: "already_has_role",
+  RC013: "request_pending",
+  RC014: "request_closed",
+  RC015: "read_only",
+  RC016: "user_inactive",
+};
+
+// Thrown when the database rejects a role change. The code says why, so the
+// Users page can explain it; the message is the database's own wording.
+export class RoleChangeError extends Error {
+  readonly code: RoleChangeErrorCode;
+
+  constructor(code: RoleChangeErrorCode, message: string) {
+    super(message);
+    this.name = "RoleChangeError";
+    this.code = code;
+  }
+}
+
+// Wraps a rejection from one of those functions and passes any other error through
+export const toRoleChangeError = (error: { code?: string; message: string }) => {
+  const code = error.code && ROLE_CHANGE_ERROR_CODES[error.code];
+  return code ? new RoleChangeError(code, error.message) : error;
+};
@@ -0,0 +1,103 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { TemporaryRoleGrant, User, UserRole } from "@/types/auth";
+import { getProfileNamesService } from "@/features/projects/member-service";
+import { toRoleChangeError } from "./errors";
+
+// Helper function to format a temporary role grant from the database
+export const formatTemporaryRoleGrant = (
+  data: Tables<'temporary_role_grants'>,
+  names: Record<string, string>
+): TemporaryRoleGrant => {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    userName: names[data.user_id] || 'Unknown user',
+    role: data.role as UserRole,
+    grantedBy: data.granted_by,
+    grantedByName: (data.granted_by && names[data.granted_by]) || 'Unknown user',
+    createdAt: data.created_at,
+    expiresAt: data.expires_at,
+    revokedAt: data.revoked_at
+  };
+};
+
+const formatTemporaryRoleGrants = async (rows: Tables<'temporary_role_grants'>[]): Promise<TemporaryRoleGrant[]> => {
+  const userIds = rows.flatMap(row => row.granted_by ? [row.user_id, row.granted_by] : [row.user_id]);
+  const names = await getProfileNamesService([...new Set(userIds)]);
+  return rows.map(row => formatTemporaryRoleGrant(row, names));
+};
+
+// Grants that have neither expired nor been revoked, ending soonest first
+export const getActiveRoleGrantsService = async (userId?: string): Promise<TemporaryRoleGrant[]> => {
+  try {
+    let query = supabase
+      .from('temporary_role_grants')
+      .select('*')
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('expires_at', { ascending: true });
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching temporary role grants:", error);
+      throw error;
+    }
+
+    return await formatTemporaryRoleGrants(data);
+  } catch (error) {
+    console.error("Exception in getActiveRoleGrantsService:", error);
+    return [];
+  }
+};
+
+// The database applies the same checks as a permanent role change and
+// replaces any grant the user already has
+export const grantTemporaryRoleService = async (
+  user: User,
+  role: UserRole,
+  expiresAt: string
+): Promise<TemporaryRoleGrant> => {
+  try {
+    const { data, error } = await supabase.rpc('grant_temporary_role', {
+      p_user_id: user.id,
+      p_role: role,
+      p_expires_at: expiresAt
+    });
+
+    if (error) {
+      console.error("Error granting temporary role:", error);
+      throw toRoleChangeError(error);
+    }
+
+    const [grant] = await formatTemporaryRoleGrants([data]);
+    return grant;
+  } catch (error) {
+    console.error("Exception in grantTemporaryRoleService:", error);
+    throw error;
+  }
+};
+
+export const revokeTemporaryRoleService = async (grant: TemporaryRoleGrant): Promise<TemporaryRoleGrant> => {
+  try {
+    const { data, error } = await supabase.rpc('revoke_temporary_role', { p_grant_id: grant.id });
+
+    if (error) {
+      console.error("Error revoking temporary role:", error);
+      throw toRoleChangeError(error);
+    }
+
+    return formatTemporaryRoleGrant(data, {
+      [grant.userId]: grant.userName,
+      ...(grant.grantedBy && { [grant.grantedBy]: grant.grantedByName })
+    });
+  } catch (error) {
+    console.error("Exception in revokeTemporaryRoleService:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { assertCan, can } from "@/features/permissions/policy";
+import { TemporaryRoleGrant, User, UserRole } from "@/types/auth";
+import { getActiveRoleGrantsService, grantTemporaryRoleService, revokeTemporaryRoleService } from "./role-grant-service";
+
+const reportError = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    toast.error(error.message);
+  } else {
+    toast.error(fallback);
+  }
+};
+
+const byExpiry = (a: TemporaryRoleGrant, b: TemporaryRoleGrant) => a.expiresAt.localeCompare(b.expiresAt);
+
+/**
+ * Loads the active temporary role grants for user managers and exposes
+ * granting and early revoking. Expired grants stay in the list until the
+ * next load; callers compare expiresAt with the clock.
+ */
+export const useRoleGrants = () => {
+  const { user } = useAuth();
+  const canChangeRoles = can(user, "user:change-role");
+  const [grants, setGrants] = useState<TemporaryRoleGrant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshGrants = useCallback(async () => {
+    if (!canChangeRoles) {
+      setGrants([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setGrants(await getActiveRoleGrantsService());
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canChangeRoles]);
+
+  useEffect(() => {
+    refreshGrants();
+  }, [refreshGrants]);
+
+  const grantRole = async (target: User, role: UserRole, expiresAt: string): Promise<TemporaryRoleGrant> => {
+    try {
+      assertCan(user, "user:change-role", target);
+
+      const grant = await grantTemporaryRoleService(target, role, expiresAt);
+      // A new grant replaces the user's previous one
+      setGrants(prev => [...prev.filter(g => g.userId !== target.id), grant].sort(byExpiry));
+      toast.success(`${target.name} has the ${role} role until ${new Date(grant.expiresAt).toLocaleString()}`);
+      return grant;
+    } catch (error) {
+      reportError(error, "Failed to grant temporary role");
+      throw error;
+    }
+  };
+
+  const revokeGrant = async (grant: TemporaryRoleGrant): Promise<void> => {
+    try {
+      assertCan(user, "user:change-role", { id: grant.userId });
+
+      await revokeTemporaryRoleService(grant);
+      setGrants(prev => prev.filter(g => g.id !== grant.id));
+      toast.success(`${grant.userName} is back on their own role`);
+    } catch (error) {
+      reportError(error, "Failed to revoke temporary role");
+      throw error;
+    }
+  };
+
+  return {
+    grants,
+    isLoading,
+    refreshGrants,
+    grantRole,
+    revokeGrant,
+  };
+};
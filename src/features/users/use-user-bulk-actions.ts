@@ -0,0 +1,89 @@
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { useRoles } from "@/features/roles/role-context";
+import { assertCan, can } from "@/features/permissions/policy";
+import { User, UserRole } from "@/types/auth";
+import { UserImportPlanItem, UserImportResult } from "@/types/user-import";
+import { updateUserRolesService } from "./user-service";
+import { applyUserImportService, parseUserImportCsv, planUserImportService } from "./user-import-service";
+
+const reportError = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    toast.error(error.message);
+  } else {
+    toast.error(fallback);
+  }
+};
+
+const countOf = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Actions that change many users at once, each reporting a single summary
+export const useUserBulkActions = () => {
+  const { user } = useAuth();
+  const { roles } = useRoles();
+
+  // Users the current user may not change are skipped and returned as failures
+  const changeRoles = async (users: User[], newRole: UserRole) => {
+    try {
+      const allowed = users.filter(u => can(user, "user:change-role", u));
+      const result = await updateUserRolesService(allowed, newRole);
+      users.filter(u => !allowed.includes(u)).forEach(u => {
+        result.failed.push({ user: u, error: "You don't have permission to change this user's role" });
+      });
+
+      if (result.updated.length > 0) {
+        toast.success(`${countOf(result.updated.length, "user")} changed to ${newRole}`);
+      }
+      if (result.failed.length > 0) {
+        // Role changes are refused for a reason, e.g. a role with capabilities the user lacks
+        toast.error(`Could not change ${result.failed.map(({ user: u }) => u.name).join(", ")}`, {
+          description: [...new Set(result.failed.map(({ error }) => error))].join(" "),
+        });
+      }
+      return result;
+    } catch (error) {
+      reportError(error, "Failed to update user roles");
+      throw error;
+    }
+  };
+
+  // A dry run: nothing is written until applyImport is called with the plan
+  const previewImport = async (text: string, users: User[]): Promise<UserImportPlanItem[]> => {
+    try {
+      assertCan(user, "user:invite");
+
+      const rows = parseUserImportCsv(text);
+      if (rows.length === 0) throw new Error("The file has no users to import");
+
+      return await planUserImportService(rows, users, roles, user);
+    } catch (error) {
+      reportError(error, "Failed to read the import file");
+      throw error;
+    }
+  };
+
+  const applyImport = async (plan: UserImportPlanItem[]): Promise<UserImportResult> => {
+    try {
+      assertCan(user, "user:invite");
+      if (plan.some(item => item.action === "update")) assertCan(user, "user:change-role");
+
+      const result = await applyUserImportService(plan);
+      if (result.invited + result.updated > 0) {
+        toast.success(`Import finished: ${countOf(result.invited, "invitation")} sent, ${countOf(result.updated, "role")} updated`);
+      }
+      if (result.failed.length > 0) {
+        toast.error(`${countOf(result.failed.length, "row")} could not be imported`);
+      }
+      return result;
+    } catch (error) {
+      reportError(error, "Failed to import users");
+      throw error;
+    }
+  };
+
+  return {
+    changeRoles,
+    previewImport,
+    applyImport,
+  };
+};
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { User } from "@/types/auth";
+import { Role } from "@/types/role";
+import { Invitation } from "@/types/invitation";
+import { getInvitationsService } from "@/features/invitations/invitation-service";
+import { parseUserImportCsv, planUserImportService } from "./user-import-service";
+import { findUsersByEmailService } from "./user-service";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+vi.mock("@/features/invitations/invitation-service", () => ({
+  createInvitationService: vi.fn(),
+  getInvitationsService: vi.fn(),
+}));
+vi.mock("./user-service", () => ({
+  findUsersByEmailService: vi.fn(),
+  updateUserRoleService: vi.fn(),
+}));
+
+describe("parseUserImportCsv", () => {
+  it("reads the rows by header name, numbered as spreadsheet lines", () => {
+    const text = "Role,EMAIL,name\r\nEditor, Ada@Example.com ,Ada Lovelace\r\nViewer,alan@example.com,Alan Turing\r\n";
+    expect(parseUserImportCsv(text)).toEqual([
+      { line: 2, name: "Ada Lovelace", email: "ada@example.com", role: "Editor" },
+      { line: 3, name: "Alan Turing", email: "alan@example.com", role: "Viewer" },
+    ]);
+  });
+
+  it("ignores a byte order mark and extra columns", () => {
+    const text = "\uFEFFname,email,role,team\nAda,ada@example.com,Editor,Research";
+    expect(parseUserImportCsv(text)).toEqual([
+      { line: 2, name: "Ada", email: "ada@example.com", role: "Editor" },
+    ]);
+  });
+
+  it("leaves missing cells empty", () => {
+    expect(parseUserImportCsv("name,email,role\nAda")).toEqual([
+      { line: 2, name: "Ada", email: "", role: "" },
+    ]);
+  });
+
+  it("throws when a required column is missing", () => {
+    expect(() => parseUserImportCsv("name,role\nAda,Editor")).toThrow(/missing email/);
+    expect(() => parseUserImportCsv("")).toThrow(/missing name, email, role/);
+  });
+});
+
+describe("planUserImportService", () => {
+  const role = (name: string, capabilities: Role["capabilities"]): Role => ({
+    name,
+    description: "",
+    capabilities,
+    isSystem: true,
+    createdAt: "2024-01-01T00:00:00Z",
+  });
+  const roles = [
+    role("Viewer", ["projects:view"]),
+    role("Editor", ["projects:view", "projects:edit:any"]),
+    role("Admin", ["projects:view", "projects:edit:any", "users:manage", "roles:manage"]),
+  ];
+  const user = (id: string, userRole: string): User => ({
+    id,
+    email: "",
+    name: id,
+    role: userRole,
+    status: "active",
+    capabilities: roles.find(r => r.name === userRole)?.capabilities ?? [],
+    createdAt: "2024-01-01T00:00:00Z",
+  });
+  const manager = { ...user("manager", "Editor"), capabilities: [...roles[1].capabilities, "users:manage" as const] };
+  const users = [manager, user("viewer", "Viewer"), user("admin", "Admin")];
+  const row = (line: number, email: string, userRole: string) => ({ line, name: email, email, role: userRole });
+
+  beforeEach(() => {
+    vi.mocked(findUsersByEmailService).mockResolvedValue({
+      "manager@example.com": "manager",
+      "viewer@example.com": "viewer",
+      "admin@example.com": "admin",
+    });
+    vi.mocked(getInvitationsService).mockResolvedValue([
+      { email: "Pending@example.com", status: "pending" } as Invitation,
+    ]);
+  });
+
+  it("invites new addresses and updates or keeps the roles of existing accounts", async () => {
+    const plan = await planUserImportService(
+      [row(2, "new@example.com", "Viewer"), row(3, "viewer@example.com", "Editor"), row(4, "viewer@example.com", "Viewer")],
+      users,
+      roles,
+      manager
+    );
+    expect(plan.map(item => item.action)).toEqual(["invite", "update", "conflict"]);
+    expect(plan[2].reason).toBe("Same email as line 3");
+
+    const [unchanged] = await planUserImportService([row(2, "viewer@example.com", "Viewer")], users, roles, manager);
+    expect(unchanged.action).toBe("unchanged");
+  });
+
+  it("reports rows that cannot be applied", async () => {
+    const plan = await planUserImportService(
+      [
+        row(2, "not-an-email", "Viewer"),
+        row(3, "", "Viewer"),
+        row(4, "someone@example.com", "Owner"),
+        row(5, "pending@example.com", "Viewer"),
+        row(6, "manager@example.com", "Viewer"),
+      ],
+      users,
+      roles,
+      manager
+    );
+    expect(plan.map(item => item.reason)).toEqual([
+      "Invalid email address",
+      "Email is missing",
+      'Unknown role "Owner"',
+      "A pending invitation already exists for this email",
+      "You cannot change your own role",
+    ]);
+  });
+
+  it("refuses roles with capabilities the importing user does not hold", async () => {
+    const plan = await planUserImportService(
+      [row(2, "new@example.com", "Admin"), row(3, "admin@example.com", "Viewer")],
+      users,
+      roles,
+      manager
+    );
+    expect(plan.map(item => item.reason)).toEqual([
+      "The Admin role has capabilities you don't have",
+      "The Admin role of this user has capabilities you don't have",
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { User } from "@/types/auth";
+import { holdsEveryCapability, Role } from "@/types/role";
+import { USER_IMPORT_COLUMNS, UserImportPlanItem, UserImportResult, UserImportRow } from "@/types/user-import";
+import { parseCsv } from "@/lib/export";
+import { createInvitationService, getInvitationsService } from "@/features/invitations/invitation-service";
+import { findUsersByEmailService, updateUserRoleService } from "./user-service";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Throws when the file does not have a name, email and role column
+export const parseUserImportCsv = (text: string): UserImportRow[] => {
+  // Spreadsheets often save CSV with a byte order mark
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+
+  const missing = USER_IMPORT_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`The file needs a header row with the columns ${USER_IMPORT_COLUMNS.join(", ")} (missing ${missing.join(", ")})`);
+  }
+
+  const value = (record: string[], column: string) => (record[columns.indexOf(column)] ?? "").trim();
+
+  return records.map((record, index) => ({
+    // The header is line 1
+    line: index + 2,
+    name: value(record, "name"),
+    email: value(record, "email").toLowerCase(),
+    role: value(record, "role"),
+  }));
+};
+
+/**
+ * Decides what applying each row would do without changing anything. Rows
+ * that match an account update its role; the rest become invitations.
+ */
+export const planUserImportService = async (
+  rows: UserImportRow[],
+  users: User[],
+  roles: Role[],
+  currentUser: User
+): Promise<UserImportPlanItem[]> => {
+  try {
+    const validEmails = [...new Set(rows.map(row => row.email).filter(email => EMAIL_PATTERN.test(email)))];
+    const [userIds, invitations] = await Promise.all([
+      findUsersByEmailService(validEmails),
+      getInvitationsService()
+    ]);
+    const pendingInvitations = new Set(
+      invitations.filter(invitation => invitation.status === "pending").map(invitation => invitation.email.toLowerCase())
+    );
+    const firstLines: Record<string, number> = {};
+
+    return rows.map((row): UserImportPlanItem => {
+      if (!EMAIL_PATTERN.test(row.email)) {
+        return { row, action: "conflict", reason: row.email ? "Invalid email address" : "Email is missing" };
+      }
+      if (firstLines[row.email]) {
+        return { row, action: "conflict", reason: `Same email as line ${firstLines[row.email]}` };
+      }
+      firstLines[row.email] = row.line;
+
+      const role = roles.find(r => r.name === row.role);
+      if (!role) {
+        return { row, action: "conflict", reason: row.role ? `Unknown role "${row.role}"` : "Role is missing" };
+      }
+      // The same rule change_user_role and the invitation policies enforce
+      if (!holdsEveryCapability(currentUser, role)) {
+        return { row, action: "conflict", reason: `The ${role.name} role has capabilities you don't have` };
+      }
+
+      const userId = userIds[row.email];
+      if (userId) {
+        const user = users.find(u => u.id === userId);
+        if (!user) return { row, action: "conflict", reason: "Account not found" };
+        if (user.id === currentUser.id) return { row, action: "conflict", user, reason: "You cannot change your own role" };
+        if (!holdsEveryCapability(currentUser, roles.find(r => r.name === user.role))) {
+          return { row, action: "conflict", user, reason: `The ${user.role} role of this user has capabilities you don't have` };
+        }
+        return { row, action: user.role === row.role ? "unchanged" : "update", user };
+      }
+
+      if (pendingInvitations.has(row.email)) {
+        return { row, action: "conflict", reason: "A pending invitation already exists for this email" };
+      }
+      return { row, action: "invite" };
+    });
+  } catch (error) {
+    console.error("Exception in planUserImportService:", error);
+    throw error;
+  }
+};
+
+// Applies the invite and update rows one by one so one failure does not stop the rest
+export const applyUserImportService = async (plan: UserImportPlanItem[]): Promise<UserImportResult> => {
+  const result: UserImportResult = { invited: 0, updated: 0, failed: [] };
+
+  for (const { row, action, user } of plan) {
+    try {
+      if (action === "invite") {
+        await createInvitationService({ email: row.email, name: row.name, role: row.role });
+        result.invited++;
+      } else if (action === "update") {
+        await updateUserRoleService(user.id, row.role);
+        result.updated++;
+      }
+    } catch (error) {
+      result.failed.push({ row, error: error instanceof Error ? error.message : "Failed to apply this row" });
+    }
+  }
+
+  console.log(`User import: ${result.invited} invited, ${result.updated} updated, ${result.failed.length} failed`);
+  return result;
+};
@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+import { User, UserRole, UserStatus } from "@/types/auth";
+import { toRoleChangeError } from "./errors";
+
+// The database decides whether the caller may make the change; rejections
+// are thrown as RoleChangeError
+export const updateUserRoleService = async (userId: string, newRole: UserRole): Promise<User> => {
+  try {
+    const { data, error } = await supabase.rpc('change_user_role', {
+      p_user_id: userId,
+      p_role: newRole
+    });
+
+    if (error) {
+      console.error("Error updating user role:", error);
+      throw toRoleChangeError(error);
+    }
+
+    return {
+      id: data.id,
+      email: '', // We don't have this in the response
+      name: data.name,
+      role: data.role as UserRole,
+      status: data.status as UserStatus,
+      capabilities: [],
+      createdAt: data.created_at,
+    };
+  } catch (error) {
+    console.error("Exception in updateUserRoleService:", error);
+    throw error;
+  }
+};
+
+// Changes each user on its own so one failure does not stop the rest
+export const updateUserRolesService = async (
+  users: User[],
+  newRole: UserRole
+): Promise<{ updated: User[]; failed: { user: User; error: string }[] }> => {
+  const updated: User[] = [];
+  const failed: { user: User; error: string }[] = [];
+
+  for (const user of users) {
+    try {
+      updated.push(await updateUserRoleService(user.id, newRole));
+    } catch (error) {
+      failed.push({ user, error: error instanceof Error ? error.message : "Failed to update user role" });
+    }
+  }
+
+  return { updated, failed };
+};
+
+// Maps lowercased email addresses to the ids of the accounts that use them
+export const findUsersByEmailService = async (emails: string[]): Promise<Record<string, string>> => {
+  if (emails.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase.rpc('find_users_by_email', { p_emails: emails });
+
+    if (error) {
+      console.error("Error looking up users by email:", error);
+      throw error;
+    }
+
+    const ids: Record<string, string> = {};
+    data.forEach(row => {
+      ids[row.email] = row.id;
+    });
+    return ids;
+  } catch (error) {
+    console.error("Exception in findUsersByEmailService:", error);
+    throw error;
+  }
+};
+
+// Break-glass recovery: only works while no active administrator exists and
+// makes the signed-in user one. Rejections are thrown as RoleChangeError.
+export const redeemRecoveryCodeService = async (code: string): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('redeem_recovery_code', { p_code: code });
+
+    if (error) {
+      console.error("Error redeeming recovery code:", error);
+      throw toRoleChangeError(error);
+    }
+  } catch (error) {
+    console.error("Exception in redeemRecoveryCodeService:", error);
+    throw error;
+  }
+};
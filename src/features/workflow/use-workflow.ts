@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { assertCan, canTransition } from "@/features/permissions/policy";
+import { Project } from "@/types/project";
+import { PROJECT_STATUSES, ProjectStatusChange, StatusTransition, StatusTransitionInput } from "@/types/workflow";
+import {
+  changeProjectStatusService,
+  deleteStatusTransitionService,
+  getProjectStatusChangesService,
+  getStatusTransitionsService,
+  saveStatusTransitionService,
+} from "./workflow-service";
+
+const reportError = (error: unknown, fallback: string) => {
+  if (error instanceof Error) {
+    toast.error(error.message);
+  } else {
+    toast.error(fallback);
+  }
+};
+
+// Follows the lifecycle order of the source status, then of the target
+const sortTransitions = (transitions: StatusTransition[]) => {
+  const order = (transition: StatusTransition) =>
+    PROJECT_STATUSES.indexOf(transition.fromStatus) * PROJECT_STATUSES.length + PROJECT_STATUSES.indexOf(transition.toStatus);
+  return [...transitions].sort((a, b) => order(a) - order(b));
+};
+
+const isSameTransition = (a: Pick<StatusTransition, "fromStatus" | "toStatus">, b: Pick<StatusTransition, "fromStatus" | "toStatus">) => {
+  return a.fromStatus === b.fromStatus && a.toStatus === b.toStatus;
+};
+
+// Loads the workflow graph and exposes the moves along it and the changes to it
+export const useWorkflow = () => {
+  const { user } = useAuth();
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    getStatusTransitionsService().then(fetchedTransitions => {
+      if (isMounted) {
+        setTransitions(sortTransitions(fetchedTransitions));
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // The moves the user can make from the project's current status
+  const getAvailableTransitions = (project: Project | null): StatusTransition[] => {
+    if (!project || project.deletedAt) return [];
+    return transitions.filter(transition =>
+      transition.fromStatus === project.status && canTransition(user, project, transition)
+    );
+  };
+
+  const getStatusChanges = useCallback(async (projectId: string): Promise<ProjectStatusChange[]> => {
+    return await getProjectStatusChangesService(projectId);
+  }, []);
+
+  const changeStatus = async (project: Project, transition: StatusTransition, comment: string): Promise<Project> => {
+    try {
+      if (!user) throw new Error("You must be logged in");
+      if (!canTransition(user, project, transition)) {
+        throw new Error(`You don't have permission to ${transition.label.toLowerCase()} this project`);
+      }
+
+      const updated = await changeProjectStatusService(project, transition.toStatus, comment);
+      toast.success(`"${project.title}": ${transition.label}`);
+      return updated;
+    } catch (error) {
+      reportError(error, "Failed to change the project status");
+      throw error;
+    }
+  };
+
+  const saveTransition = async (input: StatusTransitionInput): Promise<StatusTransition> => {
+    try {
+      assertCan(user, "workflow:manage");
+      if (input.fromStatus === input.toStatus) {
+        throw new Error("A transition must lead to a different status");
+      }
+      if (!input.label.trim()) {
+        throw new Error("Give the transition a label");
+      }
+
+      const previous = transitions.find(transition => isSameTransition(transition, input)) ?? null;
+      const saved = await saveStatusTransitionService(input, user.id);
+      setTransitions(prev => sortTransitions([...prev.filter(transition => !isSameTransition(transition, saved)), saved]));
+
+      toast.success(previous ? "Transition updated" : "Transition added");
+      return saved;
+    } catch (error) {
+      reportError(error, "Failed to save the transition");
+      throw error;
+    }
+  };
+
+  const deleteTransition = async (transition: StatusTransition): Promise<void> => {
+    try {
+      assertCan(user, "workflow:manage");
+
+      await deleteStatusTransitionService(transition);
+      setTransitions(prev => prev.filter(t => !isSameTransition(t, transition)));
+      toast.success("Transition removed");
+    } catch (error) {
+      reportError(error, "Failed to remove the transition");
+      throw error;
+    }
+  };
+
+  return {
+    transitions,
+    isLoading,
+    getAvailableTransitions,
+    getStatusChanges,
+    changeStatus,
+    saveTransition,
+    deleteTransition,
+  };
+};
@@ -0,0 +1,150 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Project } from "@/types/project";
+import { Capability } from "@/types/role";
+import { ProjectStatus, ProjectStatusChange, StatusTransition, StatusTransitionInput } from "@/types/workflow";
+import { formatProject } from "@/features/projects/project-service";
+import { getProfileNamesService } from "@/features/projects/member-service";
+
+// Helper function to format a workflow transition from the database
+export const formatStatusTransition = (data: Tables<'project_status_transitions'>): StatusTransition => {
+  return {
+    fromStatus: data.from_status as ProjectStatus,
+    toStatus: data.to_status as ProjectStatus,
+    label: data.label,
+    capability: data.capability as Capability | null,
+    updatedAt: data.updated_at
+  };
+};
+
+// Helper function to format a recorded status change from the database
+export const formatProjectStatusChange = (
+  data: Tables<'project_status_changes'>,
+  changedByName: string
+): ProjectStatusChange => {
+  return {
+    id: data.id,
+    projectId: data.project_id,
+    fromStatus: data.from_status as ProjectStatus,
+    toStatus: data.to_status as ProjectStatus,
+    comment: data.comment,
+    changedBy: data.changed_by,
+    changedByName,
+    changedAt: data.changed_at
+  };
+};
+
+export const getStatusTransitionsService = async (): Promise<StatusTransition[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('project_status_transitions')
+      .select('*');
+
+    if (error) {
+      console.error("Error fetching status transitions:", error);
+      throw error;
+    }
+
+    return data.map(formatStatusTransition);
+  } catch (error) {
+    console.error("Exception in getStatusTransitionsService:", error);
+    return [];
+  }
+};
+
+// Adds a transition, or replaces the label and capability of an existing one
+export const saveStatusTransitionService = async (
+  input: StatusTransitionInput,
+  userId: string
+): Promise<StatusTransition> => {
+  try {
+    const { data, error } = await supabase
+      .from('project_status_transitions')
+      .upsert({
+        from_status: input.fromStatus,
+        to_status: input.toStatus,
+        label: input.label.trim(),
+        capability: input.capability,
+        updated_by: userId,
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error saving status transition:", error);
+      throw error;
+    }
+
+    return formatStatusTransition(data);
+  } catch (error) {
+    console.error("Exception in saveStatusTransitionService:", error);
+    throw error;
+  }
+};
+
+export const deleteStatusTransitionService = async (transition: StatusTransition): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('project_status_transitions')
+      .delete()
+      .eq('from_status', transition.fromStatus)
+      .eq('to_status', transition.toStatus);
+
+    if (error) {
+      console.error("Error deleting status transition:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Exception in deleteStatusTransitionService:", error);
+    throw error;
+  }
+};
+
+// The database checks the transition and the user's rights, and records the change
+export const changeProjectStatusService = async (
+  project: Project,
+  toStatus: ProjectStatus,
+  comment: string
+): Promise<Project> => {
+  try {
+    console.log(`Moving project ${project.id} from ${project.status} to ${toStatus}`);
+    const { data, error } = await supabase.rpc('change_project_status', {
+      p_project_id: project.id,
+      p_to_status: toStatus,
+      p_comment: comment.trim() || null
+    });
+
+    if (error) {
+      console.error("Error changing project status:", error);
+      throw error;
+    }
+
+    return formatProject(data);
+  } catch (error) {
+    console.error("Exception in changeProjectStatusService:", error);
+    throw error;
+  }
+};
+
+// Newest first
+export const getProjectStatusChangesService = async (projectId: string): Promise<ProjectStatusChange[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('project_status_changes')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching project status changes:", error);
+      throw error;
+    }
+
+    const names = await getProfileNamesService([...new Set(data.map(change => change.changed_by))]);
+    return data.map(change => formatProjectStatusChange(change, names[change.changed_by] || 'Unknown user'));
+  } catch (error) {
+    console.error("Exception in getProjectStatusChangesService:", error);
+    return [];
+  }
+};
@@ -9,33 +9,419 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          target_id: string
+          target_label: string
+          target_type: string
+          user_agent: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          target_id: string
+          target_label?: string
+          target_type: string
+          user_agent?: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          target_id?: string
+          target_label?: string
+          target_type?: string
+          user_agent?: string
+        }
+        Relationships: []
+      }
+      impersonation_sessions: {
+        Row: {
+          admin_id: string
+          ended_at: string | null
+          expires_at: string
+          id: string
+          reason: string
+          started_at: string
+          target_id: string
+        }
+        Insert: {
+          admin_id: string
+          ended_at?: string | null
+          expires_at?: string
+          id?: string
+          reason?: string
+          started_at?: string
+          target_id: string
+        }
+        Update: {
+          admin_id?: string
+          ended_at?: string | null
+          expires_at?: string
+          id?: string
+          reason?: string
+          started_at?: string
+          target_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "impersonation_sessions_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "impersonation_sessions_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          name: string | null
+          project_id: string | null
+          project_role: string | null
+          revoked_at: string | null
+          role: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          name?: string | null
+          project_id?: string | null
+          project_role?: string | null
+          revoked_at?: string | null
+          role: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          name?: string | null
+          project_id?: string | null
+          project_role?: string | null
+          revoked_at?: string | null
+          role?: string
+          token?: string
+        }
+        Relationships: []
+      }
+      organization_members: {
+        Row: {
+          joined_at: string
+          org_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          joined_at?: string
+          org_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          joined_at?: string
+          org_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
           id: string
           name: string
           role: string
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
         }
         Insert: {
           created_at?: string
           id: string
           name: string
           role: string
+          status?: string
+          status_changed_at?: string | null
+          status_changed_by?: string | null
         }
         Update: {
           created_at?: string
           id?: string
           name?: string
           role?: string
+          status?: string
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      project_members: {
+        Row: {
+          added_at: string
+          added_by: string | null
+          project_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          added_at?: string
+          added_by?: string | null
+          project_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          added_at?: string
+          added_by?: string | null
+          project_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      project_revisions: {
+        Row: {
+          author_id: string | null
+          content: string
+          created_at: string
+          id: string
+          project_id: string
+          title: string
+        }
+        Insert: {
+          author_id?: string | null
+          content: string
+          created_at?: string
+          id?: string
+          project_id: string
+          title: string
+        }
+        Update: {
+          author_id?: string | null
+          content?: string
+          created_at?: string
+          id?: string
+          project_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_revisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_status_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string
+          comment: string | null
+          from_status: string
+          id: string
+          project_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string
+          comment?: string | null
+          from_status: string
+          id?: string
+          project_id: string
+          to_status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string
+          comment?: string | null
+          from_status?: string
+          id?: string
+          project_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_status_changes_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_status_transitions: {
+        Row: {
+          capability: string | null
+          from_status: string
+          label: string
+          to_status: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          capability?: string | null
+          from_status: string
+          label: string
+          to_status: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          capability?: string | null
+          from_status?: string
+          label?: string
+          to_status?: string
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
+      project_tags: {
+        Row: {
+          added_at: string
+          added_by: string
+          project_id: string
+          tag_id: string
+        }
+        Insert: {
+          added_at?: string
+          added_by?: string
+          project_id: string
+          tag_id: string
+        }
+        Update: {
+          added_at?: string
+          added_by?: string
+          project_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_tags_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           content: string
           created_at: string
           created_by: string
+          deleted_at: string | null
+          deleted_by: string | null
           id: string
+          org_id: string
+          search_vector: unknown | null
+          status: string
           title: string
           updated_at: string
         }
@@ -43,7 +429,12 @@ export type Database = {
           content: string
           created_at?: string
           created_by: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
+          org_id: string
+          search_vector?: unknown | null
+          status?: string
           title: string
           updated_at?: string
         }
@@ -51,18 +442,566 @@ export type Database = {
           content?: string
           created_at?: string
           created_by?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
+          org_id?: string
+          search_vector?: unknown | null
+          status?: string
           title?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "projects_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          used_by: string | null
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Relationships: []
+      }
+      registration_domains: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          default_role: string | null
+          domain: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          default_role?: string | null
+          domain: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          default_role?: string | null
+          domain?: string
+        }
+        Relationships: []
+      }
+      registration_settings: {
+        Row: {
+          id: boolean
+          mode: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          mode?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          mode?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      role_requests: {
+        Row: {
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_comment: string | null
+          decision_seen_at: string | null
+          id: string
+          justification: string
+          requester_id: string
+          role: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_comment?: string | null
+          decision_seen_at?: string | null
+          id?: string
+          justification: string
+          requester_id: string
+          role: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_comment?: string | null
+          decision_seen_at?: string | null
+          id?: string
+          justification?: string
+          requester_id?: string
+          role?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "role_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "role_requests_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          capabilities: string[]
+          created_at: string
+          description: string
+          is_system: boolean
+          name: string
+        }
+        Insert: {
+          capabilities?: string[]
+          created_at?: string
+          description?: string
+          is_system?: boolean
+          name: string
+        }
+        Update: {
+          capabilities?: string[]
+          created_at?: string
+          description?: string
+          is_system?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          org_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          name: string
+          org_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          org_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      temporary_role_grants: {
+        Row: {
+          created_at: string
+          expires_at: string
+          granted_by: string | null
+          id: string
+          revoked_at: string | null
+          revoked_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          granted_by?: string | null
+          id?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          granted_by?: string | null
+          id?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "temporary_role_grants_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "temporary_role_grants_revoked_by_fkey"
+            columns: ["revoked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "temporary_role_grants_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "temporary_role_grants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trash_settings: {
+        Row: {
+          id: boolean
+          retention_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          retention_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          retention_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      project_list: {
+        Row: {
+          author_name: string | null
+          content: string
+          created_at: string
+          created_by: string
+          deleted_at: string | null
+          deleted_by: string | null
+          id: string
+          org_id: string
+          status: string
+          tag_ids: string[]
+          title: string
+          updated_at: string
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      acknowledge_role_requests: {
+        Args: {
+          p_request_ids: string[]
+        }
+        Returns: undefined
+      }
+      can_trash_project: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: boolean
+      }
+      cancel_role_request: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: Database["public"]["Tables"]["role_requests"]["Row"]
+      }
+      change_project_status: {
+        Args: {
+          p_project_id: string
+          p_to_status: string
+          p_comment?: string | null
+        }
+        Returns: Database["public"]["Tables"]["projects"]["Row"]
+      }
+      change_user_role: {
+        Args: {
+          p_user_id: string
+          p_role: string
+        }
+        Returns: Database["public"]["Tables"]["profiles"]["Row"]
+      }
+      decide_role_request: {
+        Args: {
+          p_request_id: string
+          p_approve: boolean
+          p_comment: string
+        }
+        Returns: Database["public"]["Tables"]["role_requests"]["Row"]
+      }
+      effective_role: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      end_impersonation: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["impersonation_sessions"]["Row"]
+      }
+      find_users_by_email: {
+        Args: {
+          p_emails: string[]
+        }
+        Returns: {
+          id: string
+          email: string
+        }[]
+      }
+      generate_recovery_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_impersonated_profile: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          profile: Database["public"]["Tables"]["profiles"]["Row"]
+          temporary_role: Database["public"]["Tables"]["temporary_role_grants"]["Row"] | null
+          capabilities: string[]
+          project_roles: { [project_id: string]: { role: string; capabilities: string[] } }
+          org_roles: { [org_id: string]: { role: string; capabilities: string[] } }
+        } | null
+      }
+      get_invitation: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          email: string
+          name: string | null
+          role: string
+          project_title: string | null
+          status: string
+        }[]
+      }
+      get_registration_policy: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          mode: string
+          domains: string[]
+        }[]
+      }
+      grant_temporary_role: {
+        Args: {
+          p_user_id: string
+          p_role: string
+          p_expires_at: string
+        }
+        Returns: Database["public"]["Tables"]["temporary_role_grants"]["Row"]
+      }
+      has_all_capabilities: {
+        Args: {
+          p_capabilities: string[]
+        }
+        Returns: boolean
+      }
+      has_capability: {
+        Args: {
+          capability: string
+        }
+        Returns: boolean
+      }
+      has_org_capability: {
+        Args: {
+          p_org_id: string
+          capability: string
+        }
+        Returns: boolean
+      }
+      has_other_active_admin: {
+        Args: {
+          p_excluded_user: string | null
+          p_excluded_role: string | null
+        }
+        Returns: boolean
+      }
+      has_project_capability: {
+        Args: {
+          p_project_id: string
+          capability: string
+        }
+        Returns: boolean
+      }
+      is_active_user: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_impersonating: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_org_member: {
+        Args: {
+          p_org_id: string
+        }
+        Returns: boolean
+      }
+      is_project_member: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: boolean
+      }
+      merge_tags: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: number
+      }
+      purge_expired_projects: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      redeem_recovery_code: {
+        Args: {
+          p_code: string
+        }
+        Returns: Database["public"]["Tables"]["profiles"]["Row"]
+      }
+      request_role: {
+        Args: {
+          p_role: string
+          p_justification: string
+        }
+        Returns: Database["public"]["Tables"]["role_requests"]["Row"]
+      }
+      resend_invitation: {
+        Args: {
+          p_invitation_id: string
+        }
+        Returns: Database["public"]["Tables"]["invitations"]["Row"]
+      }
+      restore_project: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: Database["public"]["Tables"]["projects"]["Row"]
+      }
+      revoke_temporary_role: {
+        Args: {
+          p_grant_id: string
+        }
+        Returns: Database["public"]["Tables"]["temporary_role_grants"]["Row"]
+      }
+      search_projects: {
+        Args: {
+          p_org_id: string
+          p_query: string
+          p_author_id?: string | null
+          p_from?: string | null
+          p_to?: string | null
+          p_tag_ids?: string[] | null
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          content: string
+          org_id: string
+          created_by: string
+          created_at: string
+          updated_at: string
+          status: string
+          author_name: string | null
+          rank: number
+          title_highlight: string
+          snippet: string
+          total_count: number
+        }[]
+      }
+      set_user_status: {
+        Args: {
+          p_user_id: string
+          p_status: string
+          p_new_owner_id?: string | null
+        }
+        Returns: number
+      }
+      start_impersonation: {
+        Args: {
+          p_target_id: string
+          p_reason: string
+        }
+        Returns: Database["public"]["Tables"]["impersonation_sessions"]["Row"]
+      }
+      transfer_project_ownership: {
+        Args: {
+          p_project_ids: string[]
+          p_new_owner_id: string
+        }
+        Returns: Database["public"]["Tables"]["projects"]["Row"][]
+      }
+      trash_project: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: Database["public"]["Tables"]["projects"]["Row"]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, mergeThreeWay } from "./diff";
+
+describe("diffLines", () => {
+  it("marks every line unchanged for equal texts", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { type: "unchanged", text: "a" },
+      { type: "unchanged", text: "b" },
+    ]);
+  });
+
+  it("reports added and removed lines around the common ones", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+      { type: "unchanged", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "unchanged", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("handles an empty side", () => {
+    expect(diffLines("", "a")).toEqual([
+      { type: "removed", text: "" },
+      { type: "added", text: "a" },
+    ]);
+  });
+});
+
+describe("mergeThreeWay", () => {
+  const base = "one\ntwo\nthree\nfour";
+
+  it("takes the changes of whichever side made them", () => {
+    const mine = "one\nTWO\nthree\nfour";
+    const theirs = "one\ntwo\nthree\nFOUR";
+    expect(mergeThreeWay(base, mine, theirs)).toEqual({ text: "one\nTWO\nthree\nFOUR", conflicts: 0 });
+  });
+
+  it("accepts identical changes on both sides", () => {
+    const both = "one\ntwo\n3\nfour";
+    expect(mergeThreeWay(base, both, both)).toEqual({ text: both, conflicts: 0 });
+  });
+
+  it("keeps insertions and deletions from both sides", () => {
+    const mine = "zero\none\ntwo\nthree\nfour";
+    const theirs = "one\ntwo\nfour";
+    expect(mergeThreeWay(base, mine, theirs)).toEqual({ text: "zero\none\ntwo\nfour", conflicts: 0 });
+  });
+
+  it("wraps regions both sides changed differently in conflict markers", () => {
+    const mine = "one\nmine\nthree\nfour";
+    const theirs = "one\ntheirs\nthree\nfour";
+    expect(mergeThreeWay(base, mine, theirs)).toEqual({
+      text: "one\n<<<<<<< Yours\nmine\n=======\ntheirs\n>>>>>>> Theirs\nthree\nfour",
+      conflicts: 1,
+    });
+  });
+});
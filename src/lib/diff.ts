@@ -0,0 +1,116 @@
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+export interface MergeResult {
+  text: string;
+  // Number of regions wrapped in conflict markers
+  conflicts: number;
+}
+
+// lcs[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+function lcsTable(a: string[], b: string[]): number[][] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  return lcs;
+}
+
+// Line based diff built on the longest common subsequence of both texts
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs = lcsTable(a, b);
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "unchanged", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
+
+// For every line of a, the index of the line it is matched with in b, or -1
+function matchLines(a: string[], b: string[]): number[] {
+  const lcs = lcsTable(a, b);
+  const matches = new Array(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Three-way merge of two edits of the same base text. Regions changed on one
+ * side only are taken from that side; regions both sides changed differently
+ * are kept as a conflict between git-style markers for the user to resolve.
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = base.split("\n");
+  const mineLines = mine.split("\n");
+  const theirsLines = theirs.split("\n");
+  const mineMatches = matchLines(baseLines, mineLines);
+  const theirsMatches = matchLines(baseLines, theirsLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let m = 0;
+  let t = 0;
+
+  while (b <= baseLines.length) {
+    // The next base line both sides kept is a stable anchor between chunks
+    let anchor = b;
+    while (anchor < baseLines.length && (mineMatches[anchor] === -1 || theirsMatches[anchor] === -1)) {
+      anchor++;
+    }
+    const mineEnd = anchor < baseLines.length ? mineMatches[anchor] : mineLines.length;
+    const theirsEnd = anchor < baseLines.length ? theirsMatches[anchor] : theirsLines.length;
+
+    const baseChunk = baseLines.slice(b, anchor);
+    const mineChunk = mineLines.slice(m, mineEnd);
+    const theirsChunk = theirsLines.slice(t, theirsEnd);
+
+    if (sameLines(mineChunk, baseChunk)) {
+      output.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(mineChunk, theirsChunk)) {
+      output.push(...mineChunk);
+    } else {
+      conflicts++;
+      output.push("<<<<<<< Yours", ...mineChunk, "=======", ...theirsChunk, ">>>>>>> Theirs");
+    }
+
+    if (anchor < baseLines.length) output.push(baseLines[anchor]);
+    b = anchor + 1;
+    m = mineEnd + 1;
+    t = theirsEnd + 1;
+  }
+
+  return { text: output.join("\n"), conflicts };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./export";
+
+describe("toCsv", () => {
+  it("writes a header row and one line per row", () => {
+    const rows = [{ name: "Ada", age: 36 }, { name: "Alan", age: 41 }];
+    expect(toCsv(rows, ["name", "age"])).toBe("name,age\r\nAda,36\r\nAlan,41");
+  });
+
+  it("quotes values containing delimiters, quotes or newlines", () => {
+    const rows = [{ text: 'a,b' }, { text: 'say "hi"' }, { text: "two\nlines" }];
+    expect(toCsv(rows, ["text"])).toBe('text\r\n"a,b"\r\n"say ""hi"""\r\n"two\nlines"');
+  });
+
+  it("leaves null and undefined cells empty and serializes objects as JSON", () => {
+    const rows = [{ a: null, b: undefined, c: { role: "Admin" } }];
+    expect(toCsv(rows, ["a", "b", "c"])).toBe('a,b,c\r\n,,"{""role"":""Admin""}"');
+  });
+
+  it.each(["=SUM(A1:A2)", "+1", "-1", "@cmd", "\tvalue", "\rvalue"])(
+    "prefixes text starting like a formula: %j",
+    (value) => {
+      expect(toCsv([{ value }], ["value"])).toMatch(/^value\r\n"?'/);
+    }
+  );
+
+  it("quotes prefixed formulas that also need quoting", () => {
+    expect(toCsv([{ value: "=HYPERLINK(\"x\",\"y\")" }], ["value"])).toBe(
+      'value\r\n"\'=HYPERLINK(""x"",""y"")"'
+    );
+  });
+
+  it("does not prefix numbers", () => {
+    expect(toCsv([{ value: -5 }], ["value"])).toBe("value\r\n-5");
+  });
+});
+
+describe("parseCsv", () => {
+  it("splits rows on LF and CRLF", () => {
+    expect(parseCsv("a,b\r\nc,d\ne,f")).toEqual([["a", "b"], ["c", "d"], ["e", "f"]]);
+  });
+
+  it("reads quoted fields with delimiters, doubled quotes and newlines", () => {
+    expect(parseCsv('"a,b","say ""hi""","two\nlines"')).toEqual([["a,b", 'say "hi"', "two\nlines"]]);
+  });
+
+  it("drops blank lines", () => {
+    expect(parseCsv("a\n\n  \nb\n")).toEqual([["a"], ["b"]]);
+  });
+
+  it("reads back what toCsv writes", () => {
+    const rows = [{ name: "O'Brien, Pat", note: 'Quote " and\r\nnewline' }];
+    expect(parseCsv(toCsv(rows, ["name", "note"]))).toEqual([
+      ["name", "note"],
+      ["O'Brien, Pat", 'Quote " and\r\nnewline'],
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes a value for CSV when it contains a delimiter, quote or newline.
+// User-entered text that looks like a formula gets a leading ' so
+// spreadsheets show it as text instead of evaluating it.
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string"
+    ? FORMULA_PREFIX.test(value) ? `'${value}` : value
+    : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T extends object>(rows: T[], columns: (keyof T)[]): string {
+  const header = columns.map(column => escapeCsvValue(column)).join(",");
+  const lines = rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(","));
+  return [header, ...lines].join("\r\n");
+}
+
+// Saves generated content through a temporary object URL
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Reads CSV written by toCsv or a spreadsheet: quoted fields may contain
+// delimiters, doubled quotes and newlines. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
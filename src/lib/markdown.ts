@@ -0,0 +1,18 @@
+// Reduces Markdown to readable plain text for excerpts and other places
+// where rendered formatting would not fit
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*([-*+]|\d+\.)\s+(\[[ xX]\]\s+)?/gm, "")
+    .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/gm, "")
+    .replace(/\|/g, " ")
+    .replace(/(\*\*|~~|\*|`)(.+?)\1/g, "$2")
+    // Underscores inside words (snake_case) are not emphasis
+    .replace(/(^|\W)(__|_)(.+?)\2(?=\W|$)/g, "$1$3")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { getAllUsers } from "@/contexts/auth-context";
+import { useCan } from "@/features/permissions/use-can";
+import { AUDIT_PAGE_SIZE, getAllAuditEventsService, getAuditEventsPageService } from "@/features/audit/audit-service";
+import { AUDIT_ACTION_LABELS, AuditAction, AuditEvent, AuditFilters } from "@/types/audit";
+import { User } from "@/types/auth";
+import { downloadFile, toCsv } from "@/lib/export";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import { ChevronDown, ChevronRight, Download, Loader2, ScrollText, ShieldAlert } from "lucide-react";
+
+// Radix selects cannot use an empty string as an item value
+const ALL = "all";
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  "createdAt",
+  "actorName",
+  "actorId",
+  "action",
+  "targetType",
+  "targetId",
+  "targetLabel",
+  "before",
+  "after",
+  "userAgent",
+];
+
+const Audit: React.FC = () => {
+  const canViewAudit = useCan("audit:view");
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!canViewAudit) return;
+
+    let isMounted = true;
+    getAllUsers().then(fetchedUsers => {
+      if (isMounted) setUsers(fetchedUsers);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [canViewAudit]);
+
+  useEffect(() => {
+    if (!canViewAudit) return;
+
+    let isMounted = true;
+
+    const fetchEvents = async () => {
+      setLoading(true);
+      try {
+        const fetchedPage = await getAuditEventsPageService(filters, page);
+        if (isMounted) {
+          setEvents(fetchedPage.events);
+          setTotal(fetchedPage.total);
+        }
+      } catch (error) {
+        toast.error("Failed to load audit events");
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchEvents();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [canViewAudit, filters, page]);
+
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  const updateFilter = (changes: Partial<AuditFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    if (target < 1 || target > pageCount) return;
+    setExpandedId(null);
+    setPage(target);
+  };
+
+  const exportFilename = (extension: string) => `audit-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  // Exports cover every matching event, not just the page on screen
+  const exportEvents = async (write: (allEvents: AuditEvent[]) => void) => {
+    setIsExporting(true);
+    try {
+      write(await getAllAuditEventsService(filters));
+    } catch (error) {
+      toast.error("Failed to export audit events");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCsv = () => exportEvents(allEvents => {
+    downloadFile(toCsv(allEvents, CSV_COLUMNS), exportFilename("csv"), "text/csv");
+  });
+
+  const handleExportJson = () => exportEvents(allEvents => {
+    downloadFile(JSON.stringify(allEvents, null, 2), exportFilename("json"), "application/json");
+  });
+
+  // Access denied for roles that cannot view the audit log
+  if (!canViewAudit) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <ShieldAlert className="h-16 w-16 text-muted-foreground mx-auto" />
+        <h2 className="text-2xl font-bold">Access Denied</h2>
+        <p className="text-muted-foreground">
+          You don't have permission to view the audit log.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">
+            Every role change and project mutation, newest first
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportCsv} disabled={total === 0 || isExporting}>
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            CSV
+          </Button>
+          <Button variant="outline" onClick={handleExportJson} disabled={total === 0 || isExporting}>
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5 text-primary" />
+            <CardTitle>Events</CardTitle>
+          </div>
+          <CardDescription>
+            Filter by who acted, what they did and when
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-4">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select
+                value={filters.actorId ?? ALL}
+                onValueChange={(value) => updateFilter({ actorId: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {users.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select
+                value={filters.action ?? ALL}
+                onValueChange={(value) => updateFilter({ action: value === ALL ? undefined : value as AuditAction })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from ?? ""}
+                onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to ?? ""}
+                onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full mb-2" />
+            ))
+          ) : events.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]" />
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const isExpanded = expandedId === event.id;
+
+                  return (
+                    <React.Fragment key={event.id}>
+                      <TableRow>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(event.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="font-medium">{event.actorName}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{AUDIT_ACTION_LABELS[event.action] ?? event.action}</Badge>
+                        </TableCell>
+                        <TableCell>{event.targetLabel}</TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={5} className="bg-muted/50">
+                            <div className="grid gap-4 sm:grid-cols-2">
+                              <div>
+                                <p className="text-sm font-medium mb-1">Before</p>
+                                <pre className="text-xs whitespace-pre-wrap break-all">
+                                  {event.before ? JSON.stringify(event.before, null, 2) : "—"}
+                                </pre>
+                              </div>
+                              <div>
+                                <p className="text-sm font-medium mb-1">After</p>
+                                <pre className="text-xs whitespace-pre-wrap break-all">
+                                  {event.after ? JSON.stringify(event.after, null, 2) : "—"}
+                                </pre>
+                              </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-4">{event.userAgent}</p>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No audit events match these filters.
+            </p>
+          )}
+
+          {total > 0 && (
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {total} {total === 1 ? "event" : "events"} · page {page} of {pageCount}
+              </p>
+              {pageCount > 1 && (
+                <Pagination className="mx-0 w-auto">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        onClick={(e) => goToPage(e, page - 1)}
+                        aria-disabled={page <= 1}
+                        className={page <= 1 ? "pointer-events-none opacity-50" : undefined}
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        onClick={(e) => goToPage(e, page + 1)}
+                        aria-disabled={page >= pageCount}
+                        className={page >= pageCount ? "pointer-events-none opacity-50" : undefined}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Audit;
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Project } from "@/types/project";
 import { FileText, Plus, Users } from "lucide-react";
+import Can from "@/features/permissions/can";
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
@@ -29,10 +30,7 @@ const Dashboard: React.FC = () => {
         setProjects(allProjects);
         
         if (user) {
-          // Filter user's own projects if they're an Editor
-          const ownProjects = user.role === "Editor" 
-            ? allProjects.filter(p => p.createdBy === user.id)
-            : allProjects;
+          const ownProjects = allProjects.filter(p => p.createdBy === user.id);
           
           setUserProjects(ownProjects);
         }
@@ -117,7 +115,7 @@ const Dashboard: React.FC = () => {
           </CardContent>
         </Card>
         
-        {(user?.role === "Admin" || user?.role === "Editor") && (
+        <Can action="project:create">
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-xl flex items-center gap-2">
@@ -145,9 +143,9 @@ const Dashboard: React.FC = () => {
               </div>
             </CardContent>
           </Card>
-        )}
+        </Can>
         
-        {user?.role === "Admin" && (
+        <Can action="user:list">
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-xl flex items-center gap-2">
@@ -171,7 +169,7 @@ const Dashboard: React.FC = () => {
               </div>
             </CardContent>
           </Card>
-        )}
+        </Can>
       </div>
       
       <div className="mt-8">
@@ -207,14 +205,14 @@ const Dashboard: React.FC = () => {
         ) : (
           <div className="text-center py-8">
             <p className="text-muted-foreground mb-4">No projects found</p>
-            {(user?.role === "Admin" || user?.role === "Editor") && (
+            <Can action="project:create">
               <Link to="/projects/new">
                 <Button>
                   <Plus className="h-4 w-4 mr-2" />
                   Create your first project
                 </Button>
               </Link>
-            )}
+            </Can>
           </div>
         )}
       </div>
@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { getAllUsers } from "@/contexts/auth-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { useRoles } from "@/features/roles/role-context";
+import { useCan } from "@/features/permissions/use-can";
+import { OrganizationMember } from "@/types/organization";
+import { User } from "@/types/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import TagManagerPanel from "@/components/tags/TagManagerPanel";
+import { Building2, UsersRound, UserPlus, X, Save } from "lucide-react";
+
+const Organization: React.FC = () => {
+  const {
+    activeOrganization,
+    renameOrganization,
+    getOrganizationMembers,
+    addOrganizationMember,
+    updateOrganizationMemberRole,
+    removeOrganizationMember,
+  } = useOrganizations();
+  const { roles } = useRoles();
+  const canManage = useCan("organization:manage", activeOrganization && {
+    id: activeOrganization.id,
+    createdBy: activeOrganization.ownerId,
+  });
+  const canManageTags = useCan("tag:manage");
+  const [name, setName] = useState("");
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newMemberId, setNewMemberId] = useState("");
+  const [newMemberRole, setNewMemberRole] = useState("");
+
+  const orgId = activeOrganization?.id;
+
+  useEffect(() => {
+    setName(activeOrganization?.name ?? "");
+  }, [activeOrganization]);
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    let isMounted = true;
+
+    const fetchMembers = async () => {
+      setLoading(true);
+      const fetchedMembers = await getOrganizationMembers(orgId);
+      if (isMounted) {
+        setMembers(fetchedMembers);
+        setLoading(false);
+      }
+    };
+
+    fetchMembers();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [orgId, getOrganizationMembers]);
+
+  useEffect(() => {
+    if (!canManage) return;
+
+    let isMounted = true;
+    getAllUsers().then(fetchedUsers => {
+      if (isMounted) setUsers(fetchedUsers);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [canManage]);
+
+  const candidates = useMemo(() => {
+    return users.filter(u => !members.some(m => m.userId === u.id));
+  }, [users, members]);
+
+  if (!activeOrganization) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <Building2 className="h-16 w-16 text-muted-foreground mx-auto" />
+        <h2 className="text-2xl font-bold">No organization selected</h2>
+        <p className="text-muted-foreground">
+          Create or switch to an organization from the navigation bar.
+        </p>
+      </div>
+    );
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === activeOrganization.name) return;
+
+    try {
+      await renameOrganization(activeOrganization.id, name.trim());
+    } catch (error) {
+      // The organization context already reported the error
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newMemberId || !newMemberRole) return;
+
+    try {
+      const member = await addOrganizationMember(activeOrganization.id, newMemberId, newMemberRole);
+      setMembers(prev => [...prev, member]);
+      setNewMemberId("");
+      setNewMemberRole("");
+    } catch (error) {
+      // The organization context already reported the error
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: string) => {
+    try {
+      const member = await updateOrganizationMemberRole(activeOrganization.id, userId, role);
+      setMembers(prev => prev.map(m => m.userId === userId ? member : m));
+    } catch (error) {
+      // The organization context already reported the error
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    try {
+      await removeOrganizationMember(activeOrganization.id, userId);
+      setMembers(prev => prev.filter(m => m.userId !== userId));
+    } catch (error) {
+      // The organization context already reported the error
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{activeOrganization.name}</h1>
+        <p className="text-muted-foreground mt-1">
+          Organization settings and members
+        </p>
+      </div>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Building2 className="h-5 w-5 text-primary" />
+              <CardTitle>General</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleRename} className="flex gap-2">
+              <Input value={name} onChange={(e) => setName(e.target.value)} required />
+              <Button type="submit" variant="outline">
+                <Save className="h-4 w-4 mr-2" />
+                Rename
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <UsersRound className="h-5 w-5 text-primary" />
+            <CardTitle>Members</CardTitle>
+          </div>
+          <CardDescription>
+            A member's organization role replaces their global role for projects in this organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full mb-2" />
+            ))
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="w-[180px]">Organization role</TableHead>
+                  {canManage && <TableHead className="w-[60px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const isOwner = member.userId === activeOrganization.ownerId;
+
+                  return (
+                    <TableRow key={member.userId}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {member.name}
+                          {isOwner && <Badge variant="secondary">Owner</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {canManage && !isOwner ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => handleRoleChange(member.userId, value)}
+                          >
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {roles.map((role) => (
+                                <SelectItem key={role.name} value={role.name}>
+                                  {role.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          member.role
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          {!isOwner && (
+                            <Button variant="ghost" size="icon" onClick={() => handleRemove(member.userId)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {canManage && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={newMemberId} onValueChange={setNewMemberId}>
+                <SelectTrigger className="sm:flex-1">
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newMemberRole} onValueChange={setNewMemberRole}>
+                <SelectTrigger className="sm:w-[180px]">
+                  <SelectValue placeholder="Role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((role) => (
+                    <SelectItem key={role.name} value={role.name}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={!newMemberId || !newMemberRole}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add member
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManageTags && <TagManagerPanel />}
+    </div>
+  );
+};
+
+export default Organization;
@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { useAuth } from "@/contexts/auth-context";
+import { useRoleRequests } from "@/features/role-requests/use-role-requests";
+import { useRoles } from "@/features/roles/role-context";
+import { RoleRequest } from "@/types/role-request";
+import { UserRole } from "@/types/auth";
+import { CAPABILITIES } from "@/types/role";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Clock, KeyRound, UserCircle, XCircle } from "lucide-react";
+import RequestRoleDialog from "@/components/role-requests/RequestRoleDialog";
+import RoleRequestStatusBadge from "@/components/role-requests/RoleRequestStatusBadge";
+
+const Profile: React.FC = () => {
+  const { user } = useAuth();
+  const { getRole } = useRoles();
+  const { requests, pendingRequest, isLoading, requestRole, cancelRequest } = useRoleRequests("mine");
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const role = user ? getRole(user.role) : undefined;
+  const capabilities = CAPABILITIES.filter(c => user?.capabilities.includes(c.id));
+
+  const handleRequest = async (requestedRole: UserRole, justification: string) => {
+    await requestRole(requestedRole, justification);
+  };
+
+  const handleCancel = async (request: RoleRequest) => {
+    try {
+      await cancelRequest(request);
+    } catch (error) {
+      // useRoleRequests already reported the error
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Profile</h1>
+        <p className="text-muted-foreground mt-1">
+          Your account and what your role lets you do
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <UserCircle className="h-5 w-5 text-primary" />
+              <CardTitle>{user.name}</CardTitle>
+            </div>
+            {pendingRequest ? (
+              <Button variant="outline" disabled>
+                <Clock className="h-4 w-4 mr-2" />
+                {pendingRequest.role} requested
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setDialogOpen(true)} disabled={isLoading}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                Request access
+              </Button>
+            )}
+          </div>
+          <CardDescription>{user.email}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">Role</span>
+            <Badge variant="secondary">{user.role}</Badge>
+            {user.temporaryRole && (
+              <Badge variant="outline" className="border-amber-500">
+                {user.temporaryRole.role} until {new Date(user.temporaryRole.expiresAt).toLocaleString()}
+              </Badge>
+            )}
+          </div>
+          {role?.description && (
+            <p className="text-sm text-muted-foreground">{role.description}</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {capabilities.map((capability) => (
+              <Badge key={capability.id} variant="outline" title={capability.description}>
+                {capability.label}
+              </Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Role requests</CardTitle>
+          <CardDescription>
+            Your requests for a different role and what was decided
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full mb-2" />
+            ))
+          ) : requests.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Comment</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{request.role}</TableCell>
+                    <TableCell>{new Date(request.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <RoleRequestStatusBadge status={request.status} />
+                      {request.decidedAt && (
+                        <p className="text-xs text-muted-foreground mt-1">by {request.decidedByName}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{request.decisionComment ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {request.status === "pending" && (
+                        <Button variant="outline" size="sm" onClick={() => handleCancel(request)}>
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">You haven't requested a different role.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <RequestRoleDialog open={dialogOpen} onOpenChange={setDialogOpen} onSubmit={handleRequest} />
+    </div>
+  );
+};
+
+export default Profile;
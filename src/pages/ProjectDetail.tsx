@@ -1,21 +1,41 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import { useAuth } from "@/contexts/auth-context";
 import { useProjects } from "@/features/projects/project-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ProjectWithAuthor, getProjectPermissions } from "@/types/project";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Project, ProjectWithAuthor, getProjectPermissions } from "@/types/project";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { ChevronLeft, Edit, Trash, User } from "lucide-react";
+import { ArrowRightLeft, ChevronLeft, Edit, Trash, User } from "lucide-react";
 import { toast } from "sonner";
+import ProjectMembersPanel from "@/components/projects/ProjectMembersPanel";
+import ProjectHistoryPanel from "@/components/projects/ProjectHistoryPanel";
+import ProjectTags from "@/components/tags/ProjectTags";
+import PresenceAvatars from "@/components/projects/PresenceAvatars";
+import MarkdownContent from "@/components/projects/MarkdownContent";
+import TransferOwnershipDialog, { OwnerCandidate } from "@/components/projects/TransferOwnershipDialog";
+import ProjectStatusBadge from "@/components/workflow/ProjectStatusBadge";
+import ProjectStatusHistory from "@/components/workflow/ProjectStatusHistory";
+import StatusTransitionDialog from "@/components/workflow/StatusTransitionDialog";
+import { useProjectPresence } from "@/features/presence/use-project-presence";
+import { useWorkflow } from "@/features/workflow/use-workflow";
+import { StatusTransition } from "@/types/workflow";
 
 const ProjectDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { getProjectWithAuthor, deleteProject } = useProjects();
+  const { getProjectWithAuthor, deleteProject, transferProjectOwnership } = useProjects();
+  const { getOrganizationMembers } = useOrganizations();
   const [project, setProject] = useState<ProjectWithAuthor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [ownerCandidates, setOwnerCandidates] = useState<OwnerCandidate[]>([]);
+  const [pendingTransition, setPendingTransition] = useState<StatusTransition | null>(null);
+  const viewers = useProjectPresence(id, "viewing");
+  const { getAvailableTransitions, getStatusChanges, changeStatus } = useWorkflow();
   
   useEffect(() => {
     let isMounted = true;
@@ -48,13 +68,39 @@ const ProjectDetail: React.FC = () => {
   }, [id, getProjectWithAuthor]);
   
   const permissions = getProjectPermissions(project, user);
+  // Memoized so the transfer dialog does not reset while it is open
+  const transferProjects = useMemo(() => project ? [project] : [], [project]);
+
+  const handleRestored = (restored: Project) => {
+    setProject(prev => prev && { ...prev, ...restored });
+  };
+
+  const handleStatusChange = async (transition: StatusTransition, comment: string) => {
+    const updated = await changeStatus(project, transition, comment);
+    setProject(prev => prev && { ...prev, ...updated });
+  };
+  
+  const openTransferDialog = async () => {
+    if (!project) return;
+    // Ownership stays within the project's organization
+    const members = await getOrganizationMembers(project.orgId);
+    setOwnerCandidates(members.map(member => ({ id: member.userId, name: member.name })));
+    setTransferOpen(true);
+  };
+
+  const handleTransfer = async (projects: Project[], newOwnerId: string) => {
+    await transferProjectOwnership(projects, newOwnerId);
+    // Reload so the header shows the new owner
+    const refreshed = await getProjectWithAuthor(projects[0].id);
+    if (refreshed) setProject(refreshed);
+  };
   
   const handleDeleteProject = async () => {
     if (!id) return;
     
     try {
       await deleteProject(id);
-      toast.success("Project deleted successfully");
+      toast.success("Project moved to the trash");
       navigate("/projects");
     } catch (error) {
       if (error instanceof Error) {
@@ -100,7 +146,11 @@ const ProjectDetail: React.FC = () => {
             <ChevronLeft className="h-4 w-4 mr-1" />
             Back to Projects
           </Link>
-          <h1 className="text-3xl font-bold tracking-tight">{project.title}</h1>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">{project.title}</h1>
+            <ProjectStatusBadge status={project.status} />
+          </div>
+          <ProjectTags project={project} canTag={permissions.canTag} />
           <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-1 text-muted-foreground">
             {project.author && (
               <div className="flex items-center">
@@ -113,7 +163,15 @@ const ProjectDetail: React.FC = () => {
           </div>
         </div>
         
-        <div className="flex gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <PresenceAvatars users={viewers} />
+          
+          {getAvailableTransitions(project).map((transition) => (
+            <Button key={transition.toStatus} variant="outline" onClick={() => setPendingTransition(transition)}>
+              {transition.label}
+            </Button>
+          ))}
+          
           {permissions.canEdit && (
             <Link to={`/projects/${project.id}/edit`}>
               <Button variant="outline">
@@ -123,6 +181,13 @@ const ProjectDetail: React.FC = () => {
             </Link>
           )}
           
+          {permissions.canTransfer && (
+            <Button variant="outline" onClick={openTransferDialog}>
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Transfer
+            </Button>
+          )}
+          
           {permissions.canDelete && (
             <AlertDialog>
               <AlertDialogTrigger asChild>
@@ -135,7 +200,7 @@ const ProjectDetail: React.FC = () => {
                 <AlertDialogHeader>
                   <AlertDialogTitle>Delete project</AlertDialogTitle>
                   <AlertDialogDescription>
-                    Are you sure you want to delete "{project.title}"? This action cannot be undone.
+                    "{project.title}" will be moved to the trash. It can be restored from there until it is permanently deleted.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -148,11 +213,47 @@ const ProjectDetail: React.FC = () => {
         </div>
       </div>
       
-      <div className="border rounded-lg p-6 bg-card/50">
-        <div className="prose max-w-none">
-          <pre className="whitespace-pre-wrap font-sans">{project.content}</pre>
-        </div>
-      </div>
+      <Tabs defaultValue="overview">
+        <TabsList>
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="status">Status</TabsTrigger>
+        </TabsList>
+        
+        <TabsContent value="overview" className="space-y-6">
+          <div className="border rounded-lg p-6 bg-card/50">
+            <MarkdownContent content={project.content} />
+          </div>
+          
+          <ProjectMembersPanel project={project} />
+        </TabsContent>
+        
+        <TabsContent value="history">
+          <ProjectHistoryPanel
+            project={project}
+            canRestore={permissions.canEdit}
+            onRestored={handleRestored}
+          />
+        </TabsContent>
+        
+        <TabsContent value="status">
+          <ProjectStatusHistory project={project} getStatusChanges={getStatusChanges} />
+        </TabsContent>
+      </Tabs>
+      
+      <TransferOwnershipDialog
+        open={transferOpen}
+        onOpenChange={setTransferOpen}
+        projects={transferProjects}
+        candidates={ownerCandidates}
+        onConfirm={handleTransfer}
+      />
+      
+      <StatusTransitionDialog
+        transition={pendingTransition}
+        onOpenChange={(open) => !open && setPendingTransition(null)}
+        onConfirm={handleStatusChange}
+      />
     </div>
   );
 };
@@ -2,18 +2,27 @@ import React, { useEffect, useState, useCallback } from "react";
 import { useNavigate, useParams, Link } from "react-router-dom";
 import { useAuth } from "@/contexts/auth-context";
 import { useProjects } from "@/features/projects/project-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ChevronLeft, Save, AlertTriangle, Loader2 } from "lucide-react";
+import { ChevronLeft, Save, AlertTriangle, Loader2, Users } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
+import { can } from "@/features/permissions/policy";
+import { ProjectConflictError } from "@/features/projects/errors";
+import { Project } from "@/types/project";
+import ProjectConflictDialog, { ProjectDraft } from "@/components/projects/ProjectConflictDialog";
+import { useProjectPresence } from "@/features/presence/use-project-presence";
+import MarkdownEditor from "@/components/projects/MarkdownEditor";
+import RequestAccessButton from "@/components/role-requests/RequestAccessButton";
 
 const ProjectForm: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { activeOrganization } = useOrganizations();
   const { getProject, createProject, updateProject, isLoading: contextLoading } = useProjects();
   
   const [title, setTitle] = useState("");
@@ -21,8 +30,12 @@ const ProjectForm: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [permissionDenied, setPermissionDenied] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  // The saved version this edit is based on, and the newer one a save collided with
+  const [baseProject, setBaseProject] = useState<Project | null>(null);
+  const [conflict, setConflict] = useState<Project | null>(null);
   
   const isEditMode = !!id;
+  const otherEditors = useProjectPresence(id, "editing").filter(p => p.mode === "editing");
   
   const fetchProject = useCallback(async () => {
     if (!id || !user) return;
@@ -37,14 +50,15 @@ const ProjectForm: React.FC = () => {
         return;
       }
       
-      // For editing, Editors can only edit their own projects
-      if (user.role === "Editor" && fetchedProject.createdBy !== user.id) {
+      // Ownership rules need the project itself
+      if (!can(user, "project:update", fetchedProject)) {
         setPermissionDenied(true);
         return;
       }
       
       setTitle(fetchedProject.title);
       setContent(fetchedProject.content);
+      setBaseProject(fetchedProject);
       
     } catch (error) {
       toast.error("Failed to load project");
@@ -57,10 +71,12 @@ const ProjectForm: React.FC = () => {
   useEffect(() => {
     if (!user) return;
     
-    // Only Admins and Editors can create/edit projects
-    if (user.role === "Viewer") {
-      setPermissionDenied(true);
-      return;
+    // Editing is checked against the project once it has loaded
+    if (!isEditMode) {
+      // Re-evaluated when the active organization finishes loading
+      const canCreate = can(user, "project:create", { orgId: activeOrganization?.id });
+      setPermissionDenied(!canCreate);
+      if (!canCreate) return;
     }
     
     if (isEditMode) {
@@ -68,7 +84,47 @@ const ProjectForm: React.FC = () => {
     } else {
       setLoading(false);
     }
-  }, [user, isEditMode, fetchProject]);
+  }, [user, activeOrganization, isEditMode, fetchProject]);
+  
+  // Saves an edit that was based on the version saved at `basedOn`
+  const saveEdit = async (draft: ProjectDraft, basedOn: string) => {
+    if (!id) return;
+
+    setIsSaving(true);
+    
+    try {
+      await updateProject(id, draft.title, draft.content, basedOn);
+      setConflict(null);
+      toast.success("Project updated successfully");
+      navigate(`/projects/${id}`);
+    } catch (error) {
+      if (error instanceof ProjectConflictError) {
+        setConflict(error.current);
+      } else if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to update project");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  // Resolving a conflict rebases the edit onto the version that won the race
+  const resolveConflict = (draft: ProjectDraft) => {
+    setTitle(draft.title);
+    setContent(draft.content);
+    setBaseProject(conflict);
+    saveEdit(draft, conflict.updatedAt);
+  };
+  
+  const handleTakeTheirs = () => {
+    setTitle(conflict.title);
+    setContent(conflict.content);
+    setBaseProject(conflict);
+    setConflict(null);
+    toast.info("Loaded the current version of the project");
+  };
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -78,23 +134,22 @@ const ProjectForm: React.FC = () => {
       return;
     }
     
+    if (isEditMode) {
+      if (baseProject) await saveEdit({ title, content }, baseProject.updatedAt);
+      return;
+    }
+    
     setIsSaving(true);
     
     try {
-      if (isEditMode && id) {
-        await updateProject(id, title, content);
-        toast.success("Project updated successfully");
-        navigate(`/projects/${id}`);
-      } else {
-        const newProject = await createProject(title, content);
-        toast.success("Project created successfully");
-        navigate(`/projects/${newProject.id}`);
-      }
+      const newProject = await createProject(title, content);
+      toast.success("Project created successfully");
+      navigate(`/projects/${newProject.id}`);
     } catch (error) {
       if (error instanceof Error) {
         toast.error(error.message);
       } else {
-        toast.error(isEditMode ? "Failed to update project" : "Failed to create project");
+        toast.error("Failed to create project");
       }
     } finally {
       setIsSaving(false);
@@ -109,9 +164,15 @@ const ProjectForm: React.FC = () => {
         <p className="text-muted-foreground">
           You don't have permission to {isEditMode ? "edit this project" : "create projects"}.
         </p>
-        <Link to="/projects">
-          <Button>Back to Projects</Button>
-        </Link>
+        <div className="flex justify-center gap-2">
+          <Link to="/projects">
+            <Button>Back to Projects</Button>
+          </Link>
+          <RequestAccessButton
+            variant="outline"
+            suggestedCapability={isEditMode ? "projects:edit:any" : "projects:create"}
+          />
+        </div>
       </div>
     );
   }
@@ -142,6 +203,16 @@ const ProjectForm: React.FC = () => {
         </p>
       </div>
       
+      {otherEditors.length > 0 && (
+        <Alert>
+          <Users className="h-4 w-4" />
+          <AlertDescription>
+            {otherEditors.map(p => p.name).join(", ")} {otherEditors.length === 1 ? "is" : "are"} editing
+            this project. Saving may conflict with their changes.
+          </AlertDescription>
+        </Alert>
+      )}
+      
       <form onSubmit={handleSubmit} className="space-y-6">
         <div className="space-y-2">
           <Label htmlFor="title">Project Title</Label>
@@ -157,13 +228,11 @@ const ProjectForm: React.FC = () => {
         
         <div className="space-y-2">
           <Label htmlFor="content">Content</Label>
-          <Textarea
+          <MarkdownEditor
             id="content"
             value={content}
-            onChange={(e) => setContent(e.target.value)}
+            onChange={setContent}
             placeholder="Enter project content"
-            className="min-h-[200px]"
-            required
             disabled={isSaving}
           />
         </div>
@@ -189,6 +258,20 @@ const ProjectForm: React.FC = () => {
           </Link>
         </div>
       </form>
+      
+      {conflict && baseProject && (
+        <ProjectConflictDialog
+          open={!!conflict}
+          onOpenChange={(open) => !open && setConflict(null)}
+          base={baseProject}
+          mine={{ title, content }}
+          theirs={conflict}
+          isSaving={isSaving}
+          onKeepMine={() => resolveConflict({ title, content })}
+          onTakeTheirs={handleTakeTheirs}
+          onMerge={resolveConflict}
+        />
+      )}
     </div>
   );
 };
@@ -1,128 +1,186 @@
-
-import React, { useEffect, useState, useMemo } from "react";
-import { Link } from "react-router-dom";
-import { useAuth } from "@/contexts/auth-context";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { useProjects } from "@/features/projects/project-context";
+import { useOrganizations } from "@/features/organizations/organization-context";
+import { useTags } from "@/features/tags/tag-context";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Project } from "@/types/project";
-import { Plus, Search, FolderOpen, Loader2, AlertCircle } from "lucide-react";
+import { Plus, Search, FolderOpen, Loader2, AlertCircle, RefreshCw, Tags, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import { supabase } from "@/integrations/supabase/client";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { useToast } from "@/hooks/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import { useCan } from "@/features/permissions/use-can";
+import { getProfileNamesService } from "@/features/projects/member-service";
+import { markdownToPlainText } from "@/lib/markdown";
+import { BulkActionResult, DEFAULT_PROJECT_QUERY, ProjectQuery, ProjectSearchResult, ProjectSortField, SortDirection } from "@/types/project";
+import { OrganizationMember } from "@/types/organization";
+import HighlightedText from "@/components/search/HighlightedText";
+import BulkActionBar from "@/components/projects/BulkActionBar";
+import TagChip from "@/components/tags/TagChip";
+import TagSelect from "@/components/tags/TagSelect";
+import ProjectStatusBadge from "@/components/workflow/ProjectStatusBadge";
+
+const excerpt = (content: string) => {
+  const text = markdownToPlainText(content);
+  return text.length > 150 ? `${text.substring(0, 150)}...` : text;
+};
+
+// Radix selects cannot use an empty string as an item value
+const ALL_AUTHORS = "all";
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: "updated:desc", label: "Recently updated" },
+  { value: "updated:asc", label: "Least recently updated" },
+  { value: "created:desc", label: "Newest" },
+  { value: "created:asc", label: "Oldest" },
+  { value: "title:asc", label: "Title A-Z" },
+  { value: "title:desc", label: "Title Z-A" },
+  { value: "author:asc", label: "Author A-Z" },
+  { value: "author:desc", label: "Author Z-A" },
+];
+
+const SORT_FIELDS: ProjectSortField[] = ["title", "created", "updated", "author"];
+
+// The URL is the source of truth for the list, so filtered views can be bookmarked
+const parseQuery = (params: URLSearchParams): ProjectQuery => {
+  const page = parseInt(params.get("page") ?? "", 10);
+  const sort = params.get("sort") as ProjectSortField;
+  const direction = params.get("dir") as SortDirection;
+
+  return {
+    ...DEFAULT_PROJECT_QUERY,
+    page: page > 0 ? page : DEFAULT_PROJECT_QUERY.page,
+    sort: SORT_FIELDS.includes(sort) ? sort : DEFAULT_PROJECT_QUERY.sort,
+    direction: direction === "asc" || direction === "desc" ? direction : DEFAULT_PROJECT_QUERY.direction,
+    search: params.get("q") ?? undefined,
+    authorId: params.get("author") ?? undefined,
+    from: params.get("from") ?? undefined,
+    to: params.get("to") ?? undefined,
+    tagIds: params.get("tags")?.split(",").filter(Boolean),
+  };
+};
+
+// Page numbers to show, with null standing in for an ellipsis
+const pageWindow = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = [...pages].filter(p => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+
+  const result: (number | null)[] = [];
+  sorted.forEach((p, i) => {
+    if (i > 0 && p - sorted[i - 1] > 1) result.push(null);
+    result.push(p);
+  });
+  return result;
+};
 
 const Projects: React.FC = () => {
-  const { user } = useAuth();
-  const { getAllProjects, isLoading } = useProjects();
-  const { toast } = useToast();
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
+  // The context keeps this list current with other users' changes
+  const { projects, hasNewProjects, getProjectsPage, searchProjects } = useProjects();
+  const { activeOrganization, isLoading: organizationsLoading, getOrganizationMembers } = useOrganizations();
+  const { getTag, getProjectTagIds } = useTags();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseQuery(searchParams), [searchParams]);
+  const [searchInput, setSearchInput] = useState(query.search ?? "");
+  const [total, setTotal] = useState(0);
+  // Set while the list shows ranked full-text matches instead of a sorted page
+  const [searchResults, setSearchResults] = useState<ProjectSearchResult[] | null>(null);
+  const [authors, setAuthors] = useState<OrganizationMember[]>([]);
   const [projectAuthors, setProjectAuthors] = useState<Record<string, string>>({});
+  const [projectTags, setProjectTags] = useState<Record<string, string[]>>({});
+  // Bumped after a bulk tag change so the cards reload their tags
+  const [projectTagsVersion, setProjectTagsVersion] = useState(0);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [isPageLoading, setIsPageLoading] = useState(true);
-  const [loadingProgress, setLoadingProgress] = useState(0);
+  const [isFetching, setIsFetching] = useState(false);
   const [loadingError, setLoadingError] = useState<string | null>(null);
   const [loadingTimeout, setLoadingTimeout] = useState(false);
-  
-  const canCreateProjects = user?.role === "Admin" || user?.role === "Editor";
-  
+  // Bumped to load the current page again
+  const [reloadCount, setReloadCount] = useState(0);
+  // Selection is limited to the current page and cleared whenever the list changes
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const canCreateProjects = useCan("project:create");
+  const orgId = activeOrganization?.id;
+
+  // Changes every param except the page, which goes back to the first one
+  const updateQuery = useCallback((changes: Record<string, string | undefined>, resetPage = true) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (resetPage) next.delete("page");
+      return next;
+    });
+  }, [setSearchParams]);
+
+  // Debounce typing so every keystroke does not hit the database
   useEffect(() => {
-    let isMounted = true;
-    let timeoutId: NodeJS.Timeout;
-    
-    // Add timeout for loading state
-    timeoutId = setTimeout(() => {
-      if (isMounted && isPageLoading) {
-        setLoadingTimeout(true);
-        setLoadingError("Loading is taking longer than expected. There might be connectivity issues with the database.");
+    const timeoutId = setTimeout(() => {
+      if ((query.search ?? "") !== searchInput.trim()) {
+        updateQuery({ q: searchInput.trim() || undefined });
       }
-    }, 8000); // 8 seconds timeout
-    
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchInput, query.search, updateQuery]);
+
+  // Follow the URL when it changes from outside the input, e.g. back navigation
+  useEffect(() => {
+    setSearchInput(prev => prev.trim() === (query.search ?? "") ? prev : query.search ?? "");
+  }, [query.search]);
+
+  // Without an organization there is nothing to load
+  useEffect(() => {
+    if (!orgId && !organizationsLoading) {
+      setIsPageLoading(false);
+      setInitialLoadComplete(true);
+    }
+  }, [orgId, organizationsLoading]);
+
+  // Warn when the first load is slow rather than spinning forever
+  useEffect(() => {
+    if (!orgId || initialLoadComplete) return;
+
+    const timeoutId = setTimeout(() => {
+      setLoadingTimeout(true);
+      setLoadingError("Loading is taking longer than expected. There might be connectivity issues with the database.");
+    }, 8000);
+
+    return () => clearTimeout(timeoutId);
+  }, [orgId, initialLoadComplete]);
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    let isMounted = true;
+
     const fetchProjects = async () => {
       try {
-        setIsPageLoading(true);
-        
-        // Set a timeout to prevent infinite loading
-        timeoutId = setTimeout(() => {
-          if (isMounted) {
-            console.warn("Projects fetch timeout - forcing completion");
-            setIsPageLoading(false);
-            setInitialLoadComplete(true);
-          }
-        }, 10000);
-        
-        console.log("Fetching projects...");
-        setLoadingProgress(10);
-        
-        // Test Supabase connection first
-        try {
-          const { data: connectionTest, error: connectionError } = await supabase
-            .from('profiles')
-            .select('count')
-            .limit(1)
-            .maybeSingle();
-            
-          if (connectionError) {
-            console.error("Supabase connection test failed:", connectionError);
-            if (isMounted) {
-              setLoadingError("Failed to connect to the database. Please try again later.");
-              setIsPageLoading(false);
-              setInitialLoadComplete(true);
-            }
-            return;
-          }
-          
-          setLoadingProgress(30);
-        } catch (connError) {
-          console.error("Supabase connection exception:", connError);
-          if (isMounted) {
-            setLoadingError("Failed to connect to the database. Please try again later.");
-            setIsPageLoading(false);
-            setInitialLoadComplete(true);
-          }
-          return;
-        }
-        
-        // Proceed with actual data fetching
-        console.log("Fetching projects...");
-        const allProjects = await getAllProjects();
-        
-        if (!isMounted) return;
-        
-        console.log("Projects fetched:", allProjects.length);
-        setLoadingProgress(60);
-        setProjects(allProjects);
-        
-        // Only fetch authors if we have projects and are still mounted
-        if (allProjects.length > 0 && isMounted) {
-          try {
-            const uniqueAuthorIds = [...new Set(allProjects.map(p => p.createdBy))];
-            
-            console.log("Fetching authors for IDs:", uniqueAuthorIds);
-            const { data, error } = await supabase
-              .from('profiles')
-              .select('id, name')
-              .in('id', uniqueAuthorIds);
-            
-            if (!isMounted) return;
-            setLoadingProgress(90);
-            
-            if (error) {
-              console.error("Error fetching authors:", error);
-            } else if (data) {
-              console.log("Authors fetched:", data.length);
-              const authorsMap: Record<string, string> = {};
-              data.forEach(profile => {
-                authorsMap[profile.id] = profile.name;
-              });
-              setProjectAuthors(authorsMap);
-            }
-          } catch (authorError) {
-            console.error("Exception fetching authors:", authorError);
-          }
+        setIsFetching(true);
+        if (query.search) {
+          const page = await searchProjects(query);
+          if (!isMounted) return;
+          setSearchResults(page.results);
+          setTotal(page.total);
+        } else {
+          console.log("Fetching projects page...", query);
+          const page = await getProjectsPage(query);
+          if (!isMounted) return;
+          setSearchResults(null);
+          setTotal(page.total);
         }
+
+        setLoadingError(null);
+        setLoadingTimeout(false);
       } catch (error) {
         console.error("Error in fetchProjects:", error);
         if (isMounted) {
@@ -130,34 +188,131 @@ const Projects: React.FC = () => {
         }
       } finally {
         if (isMounted) {
-          clearTimeout(timeoutId);
-          setLoadingProgress(100);
           setInitialLoadComplete(true);
           setIsPageLoading(false);
+          setIsFetching(false);
         }
       }
     };
-    
+
     fetchProjects();
-    
+
+    return () => {
+      isMounted = false;
+    };
+  }, [orgId, query, reloadCount, getProjectsPage, searchProjects]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [orgId, query]);
+
+  // Anyone in the organization may have created projects
+  useEffect(() => {
+    if (!orgId) return;
+
+    let isMounted = true;
+    getOrganizationMembers(orgId).then(members => {
+      if (isMounted) setAuthors(members);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [orgId, getOrganizationMembers]);
+
+  // Projects created by others after the page loaded may have new authors
+  useEffect(() => {
+    const missingAuthorIds = [...new Set(projects.map(p => p.createdBy))]
+      .filter(authorId => !(authorId in projectAuthors));
+    if (!initialLoadComplete || missingAuthorIds.length === 0) return;
+
+    getProfileNamesService(missingAuthorIds).then(names => {
+      // Remember unknown authors too, so they are not looked up again
+      const resolved: Record<string, string> = {};
+      missingAuthorIds.forEach(authorId => {
+        resolved[authorId] = names[authorId] ?? "";
+      });
+      setProjectAuthors(prev => ({ ...prev, ...resolved }));
+    });
+  }, [projects, projectAuthors, initialLoadComplete]);
+
+  const visibleProjectIds = useMemo(
+    () => (searchResults?.map(result => result.project.id) ?? projects.map(project => project.id)).join(","),
+    [searchResults, projects]
+  );
+
+  useEffect(() => {
+    if (!visibleProjectIds) return;
+
+    let isMounted = true;
+    getProjectTagIds(visibleProjectIds.split(",")).then(fetchedTags => {
+      if (isMounted) setProjectTags(fetchedTags);
+    });
+
     return () => {
       isMounted = false;
-      clearTimeout(timeoutId);
     };
-  }, [getAllProjects]);
-  
-  const filteredProjects = useMemo(() => {
-    return projects.filter(project => 
-      project.title.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [projects, searchQuery]);
-  
+  }, [visibleProjectIds, projectTagsVersion, getProjectTagIds]);
+
+  const pageCount = Math.max(1, Math.ceil(total / query.pageSize));
+  const items: Partial<ProjectSearchResult>[] = searchResults ?? projects.map(project => ({ project }));
+  const hasFilters = !!(query.search || query.authorId || query.from || query.to || query.tagIds?.length);
+
+  const selectedProjects = useMemo(() => {
+    const pageProjects = searchResults?.map(result => result.project) ?? projects;
+    return pageProjects.filter(project => selectedIds.includes(project.id));
+  }, [searchResults, projects, selectedIds]);
+
+  const ownerCandidates = useMemo(
+    () => authors.map(author => ({ id: author.userId, name: author.name })),
+    [authors]
+  );
+
+  const allSelected = items.length > 0 && selectedProjects.length === items.length;
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  const toggleAllSelected = (checked: boolean) => {
+    setSelectedIds(checked ? items.map(({ project }) => project.id) : []);
+  };
+
+  const handleBulkDeleted = ({ succeeded }: BulkActionResult) => {
+    const deletedIds = succeeded.map(project => project.id);
+    // The context drops them from `projects`, search results are a local snapshot
+    setSearchResults(prev => prev && prev.filter(result => !deletedIds.includes(result.project.id)));
+    setSelectedIds(prev => prev.filter(id => !deletedIds.includes(id)));
+    setTotal(prev => prev - deletedIds.length);
+  };
+
+  const handleBulkTagged = () => {
+    setProjectTagsVersion(prev => prev + 1);
+  };
+
+  const pageHref = (page: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(page));
+    return `?${params.toString()}`;
+  };
+
+  const goToPage = (e: React.MouseEvent, page: number) => {
+    e.preventDefault();
+    if (page < 1 || page > pageCount || page === query.page) return;
+    updateQuery({ page: page === 1 ? undefined : String(page) }, false);
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    updateQuery({ q: undefined, author: undefined, from: undefined, to: undefined, tags: undefined });
+  };
+
   const renderLoading = () => (
     <div className="flex flex-col items-center justify-center py-20">
       <Loader2 className="h-10 w-10 animate-spin text-primary mb-4" />
       <p className="text-muted-foreground mb-4">Loading projects...</p>
       <div className="w-full max-w-md mb-2">
-        <Progress value={loadingProgress} className="h-2" />
+        <Progress value={30} className="h-2" />
       </div>
       {loadingTimeout && (
         <Alert variant="destructive" className="mt-4 max-w-md">
@@ -169,7 +324,7 @@ const Projects: React.FC = () => {
       )}
     </div>
   );
-  
+
   const renderError = () => (
     <div className="flex flex-col items-center justify-center py-20">
       <AlertCircle className="h-10 w-10 text-destructive mb-4" />
@@ -182,15 +337,15 @@ const Projects: React.FC = () => {
       </Button>
     </div>
   );
-  
+
   if (isPageLoading) {
     return renderLoading();
   }
-  
+
   if (loadingError && !isPageLoading) {
     return renderError();
   }
-  
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -202,7 +357,7 @@ const Projects: React.FC = () => {
               : "Browse and view available projects"}
           </p>
         </div>
-        
+
         {canCreateProjects && (
           <Link to="/projects/new">
             <Button>
@@ -212,30 +367,123 @@ const Projects: React.FC = () => {
           </Link>
         )}
       </div>
-      
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-        <Input
-          placeholder="Search projects..."
-          className="pl-10"
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-        />
+
+      <div className="space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search projects..."
+            className="pl-10"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <Select
+            value={query.authorId ?? ALL_AUTHORS}
+            onValueChange={(value) => updateQuery({ author: value === ALL_AUTHORS ? undefined : value })}
+          >
+            <SelectTrigger className="md:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_AUTHORS}>All authors</SelectItem>
+              {authors.map((author) => (
+                <SelectItem key={author.userId} value={author.userId}>
+                  {author.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <TagSelect
+            value={query.tagIds ?? []}
+            onChange={(tagIds) => updateQuery({ tags: tagIds.join(",") || undefined })}
+          >
+            <Button variant="outline" className="md:w-[200px] justify-start font-normal">
+              <Tags className="h-4 w-4 mr-2" />
+              {query.tagIds?.length
+                ? `${query.tagIds.length} ${query.tagIds.length === 1 ? "tag" : "tags"}`
+                : "All tags"}
+            </Button>
+          </TagSelect>
+
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              aria-label="Updated from"
+              className="md:w-[160px]"
+              value={query.from ?? ""}
+              onChange={(e) => updateQuery({ from: e.target.value || undefined })}
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="Updated to"
+              className="md:w-[160px]"
+              value={query.to ?? ""}
+              onChange={(e) => updateQuery({ to: e.target.value || undefined })}
+            />
+          </div>
+
+          {query.search ? (
+            <p className="text-sm text-muted-foreground md:ml-auto self-center">Sorted by relevance</p>
+          ) : (
+            <Select
+              value={`${query.sort}:${query.direction}`}
+              onValueChange={(value) => {
+                const [sort, dir] = value.split(":");
+                updateQuery({ sort, dir });
+              }}
+            >
+              <SelectTrigger className="md:w-[200px] md:ml-auto">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {hasFilters && (
+            <Button variant="ghost" onClick={clearFilters}>
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
       </div>
-      
-      {initialLoadComplete && filteredProjects.length === 0 && (
+
+      {hasNewProjects && !query.search && (
+        <Alert>
+          <RefreshCw className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            New projects were added since this page was loaded.
+            <Button variant="outline" size="sm" onClick={() => setReloadCount(count => count + 1)}>
+              Refresh
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {initialLoadComplete && items.length === 0 && (
         <div className="text-center py-12">
           <FolderOpen className="mx-auto h-16 w-16 text-muted-foreground/60 mb-4" />
           <p className="text-xl font-medium mb-2">No projects found</p>
           <p className="text-muted-foreground mb-6">
-            {searchQuery
-              ? "Try searching with different keywords"
+            {hasFilters
+              ? "Try different keywords or filters"
               : canCreateProjects
               ? "Create your first project to get started"
               : "No projects are available for viewing"}
           </p>
-          
-          {canCreateProjects && !searchQuery && (
+
+          {canCreateProjects && !hasFilters && (
             <Link to="/projects/new">
               <Button>
                 <Plus className="h-4 w-4 mr-2" />
@@ -245,39 +493,121 @@ const Projects: React.FC = () => {
           )}
         </div>
       )}
-      
-      {filteredProjects.length > 0 && (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {filteredProjects.map((project) => (
-            <Link key={project.id} to={`/projects/${project.id}`}>
-              <Card className="h-full transition-all hover:shadow-md hover:bg-muted/30">
-                <CardContent className="p-6">
-                  <div className="flex flex-col h-full justify-between">
-                    <div>
-                      <h2 className="text-xl font-semibold mb-2">{project.title}</h2>
-                      <p className="text-muted-foreground line-clamp-3 text-sm mb-4">
-                        {project.content.length > 150
-                          ? `${project.content.substring(0, 150)}...`
-                          : project.content}
-                      </p>
-                    </div>
-                    <div className="flex flex-col gap-2">
-                      {projectAuthors[project.createdBy] && (
+
+      {items.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="select-all-projects"
+            checked={allSelected ? true : selectedProjects.length > 0 ? "indeterminate" : false}
+            onCheckedChange={(checked) => toggleAllSelected(checked === true)}
+          />
+          <Label htmlFor="select-all-projects" className="font-normal text-muted-foreground">
+            Select all on this page
+          </Label>
+        </div>
+      )}
+
+      {selectedProjects.length > 0 && (
+        <BulkActionBar
+          selected={selectedProjects}
+          ownerCandidates={ownerCandidates}
+          onClear={() => setSelectedIds([])}
+          onDeleted={handleBulkDeleted}
+          onTagged={handleBulkTagged}
+        />
+      )}
+
+      {items.length > 0 && (
+        <div className={`grid gap-4 md:grid-cols-2 lg:grid-cols-3 transition-opacity ${isFetching ? "opacity-60" : ""}`}>
+          {items.map(({ project, titleHighlight, snippet, authorName }) => (
+            <div key={project.id} className="relative">
+              <Checkbox
+                aria-label={`Select ${project.title}`}
+                className="absolute right-4 top-4 z-[1] bg-background"
+                checked={selectedIds.includes(project.id)}
+                onCheckedChange={(checked) => toggleSelected(project.id, checked === true)}
+              />
+              <Link to={`/projects/${project.id}`}>
+                <Card className={`h-full transition-all hover:shadow-md hover:bg-muted/30 ${selectedIds.includes(project.id) ? "ring-2 ring-primary" : ""}`}>
+                  <CardContent className="p-6">
+                    <div className="flex flex-col h-full justify-between">
+                      <div>
+                        <h2 className="text-xl font-semibold mb-2 pr-8">
+                          {titleHighlight ? <HighlightedText text={titleHighlight} /> : project.title}
+                        </h2>
+                        <p className="text-muted-foreground line-clamp-3 text-sm mb-4">
+                          {snippet ? <HighlightedText text={snippet} /> : excerpt(project.content)}
+                        </p>
+                        {projectTags[project.id]?.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-4">
+                            {projectTags[project.id].map(getTag).filter(Boolean).map((tag) => (
+                              <TagChip key={tag.id} tag={tag} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <ProjectStatusBadge status={project.status} className="self-start" />
+                        {(authorName || projectAuthors[project.createdBy]) && (
+                          <p className="text-sm text-muted-foreground">
+                            Created by: <span className="font-medium">{authorName || projectAuthors[project.createdBy]}</span>
+                          </p>
+                        )}
                         <p className="text-sm text-muted-foreground">
-                          Created by: <span className="font-medium">{projectAuthors[project.createdBy]}</span>
+                          Last updated: {new Date(project.updatedAt).toLocaleDateString()}
                         </p>
-                      )}
-                      <p className="text-sm text-muted-foreground">
-                        Last updated: {new Date(project.updatedAt).toLocaleDateString()}
-                      </p>
+                      </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </Link>
+                  </CardContent>
+                </Card>
+              </Link>
+            </div>
           ))}
         </div>
       )}
+
+      {pageCount > 1 && (
+        <div className="flex flex-col items-center gap-2">
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href={pageHref(Math.max(1, query.page - 1))}
+                  onClick={(e) => goToPage(e, query.page - 1)}
+                  aria-disabled={query.page <= 1}
+                  className={query.page <= 1 ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+              {pageWindow(query.page, pageCount).map((page, i) => (
+                <PaginationItem key={page ?? `ellipsis-${i}`}>
+                  {page === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href={pageHref(page)}
+                      isActive={page === query.page}
+                      onClick={(e) => goToPage(e, page)}
+                    >
+                      {page}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href={pageHref(Math.min(pageCount, query.page + 1))}
+                  onClick={(e) => goToPage(e, query.page + 1)}
+                  aria-disabled={query.page >= pageCount}
+                  className={query.page >= pageCount ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+          <p className="text-sm text-muted-foreground">
+            {total} {total === 1 ? "project" : "projects"}
+          </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,84 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { redeemRecoveryCodeService } from "@/features/users/user-service";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, KeyRound, Loader2 } from "lucide-react";
+
+// Break-glass page for when no active administrator is left. Not linked from
+// the navigation; DATABASE_SETUP.md explains how to get here.
+const Recovery: React.FC = () => {
+  const { refreshUser } = useAuth();
+  const navigate = useNavigate();
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      await redeemRecoveryCodeService(code.trim());
+      await refreshUser();
+      toast.success("Administrator access restored");
+      navigate("/users");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to use the recovery code");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-lg mx-auto">
+      <Card>
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              <CardTitle>Administrator recovery</CardTitle>
+            </div>
+            <CardDescription>
+              If no active administrator is left, the recovery code generated at setup makes your account one. Each code works once.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="recovery-code">Recovery code</Label>
+              <Input
+                id="recovery-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="XXXXXX-XXXXXX-XXXXXX-XXXXXX-XXXXXX"
+                className="font-mono"
+                autoComplete="off"
+                disabled={isSubmitting}
+              />
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" className="w-full" disabled={isSubmitting || !code.trim()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore access
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default Recovery;
@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { useRoles } from "@/features/roles/role-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { KeyRound, Plus, Edit, Trash, ShieldAlert } from "lucide-react";
+import { CAPABILITIES, Role, RoleInput } from "@/types/role";
+import { useCan } from "@/features/permissions/use-can";
+import RoleFormDialog from "@/components/roles/RoleFormDialog";
+import WorkflowPanel from "@/components/workflow/WorkflowPanel";
+
+const Roles: React.FC = () => {
+  const canManageRoles = useCan("role:manage");
+  const { roles, isLoading, createRole, updateRole, deleteRole } = useRoles();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+
+  const openCreateDialog = () => {
+    setEditingRole(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (role: Role) => {
+    setEditingRole(role);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (input: RoleInput) => {
+    if (editingRole) {
+      await updateRole(editingRole.name, input);
+    } else {
+      await createRole(input);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    try {
+      await deleteRole(name);
+    } catch (error) {
+      // The role context already reported the error
+    }
+  };
+
+  // Access denied for roles that cannot manage roles
+  if (!canManageRoles) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <ShieldAlert className="h-16 w-16 text-muted-foreground mx-auto" />
+        <h2 className="text-2xl font-bold">Access Denied</h2>
+        <p className="text-muted-foreground">
+          You don't have permission to manage roles.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Roles</h1>
+          <p className="text-muted-foreground mt-1">
+            Define roles and the capabilities they grant
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Role
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            <CardTitle>All roles</CardTitle>
+          </div>
+          <CardDescription>
+            Changes apply to every user with the role the next time they sign in
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && roles.length === 0 ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full mb-2" />
+            ))
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Capabilities</TableHead>
+                  <TableHead className="w-[120px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles.map((role) => (
+                  <TableRow key={role.name}>
+                    <TableCell className="align-top">
+                      <div className="font-medium flex items-center gap-2">
+                        {role.name}
+                        {role.isSystem && <Badge variant="secondary">System</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{role.description}</p>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex flex-wrap gap-1">
+                        {CAPABILITIES.filter(c => role.capabilities.includes(c.id)).map((capability) => (
+                          <Badge key={capability.id} variant="outline">
+                            {capability.label}
+                          </Badge>
+                        ))}
+                        {role.capabilities.length === 0 && (
+                          <span className="text-sm text-muted-foreground">None</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(role)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {!role.isSystem && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete role</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete the "{role.name}" role? Roles that are still assigned to users cannot be deleted.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(role.name)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <WorkflowPanel />
+
+      <RoleFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        role={editingRole}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  );
+};
+
+export default Roles;
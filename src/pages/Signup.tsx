@@ -1,30 +1,94 @@
 
-import React, { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/contexts/auth-context";
+import { getInvitationPreviewService } from "@/features/invitations/invitation-service";
+import { getRegistrationPolicyService } from "@/features/registration/registration-service";
+import { InvitationPreview } from "@/types/invitation";
+import { isRegistrationAllowed, RegistrationPolicy } from "@/types/registration";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Loader2, AlertCircle } from "lucide-react";
+import { Loader2, AlertCircle, MailCheck } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 const Signup: React.FC = () => {
   const { signup } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite");
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [isCheckingInvite, setIsCheckingInvite] = useState(!!inviteToken);
+  const [policy, setPolicy] = useState<RegistrationPolicy | null>(null);
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
 
+  useEffect(() => {
+    let isMounted = true;
+
+    getRegistrationPolicyService().then(fetchedPolicy => {
+      if (isMounted) setPolicy(fetchedPolicy);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    let isMounted = true;
+
+    getInvitationPreviewService(inviteToken).then(preview => {
+      if (!isMounted) return;
+      setInvitation(preview);
+      if (preview?.status === "pending") {
+        setEmail(preview.email);
+        if (preview.name) setName(preview.name);
+      }
+      setIsCheckingInvite(false);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [inviteToken]);
+
+  // Only a pending invitation is sent along; the email has to match it
+  const isInvited = invitation?.status === "pending";
+
+  // Without an invitation the registration policy decides; the database enforces the same rules
+  const isInviteOnly = !isInvited && policy?.mode === "invite_only";
+  const allowedDomains = !isInvited && policy?.mode === "domain_allowlist" ? policy.domains : null;
+
+  const invitationProblem = () => {
+    if (!inviteToken || isCheckingInvite || isInvited) return "";
+    const problem = invitation
+      ? `This invitation has been ${invitation.status === "accepted" ? "used already" : invitation.status}. Ask an administrator for a new link.`
+      : "This invitation link is not valid.";
+    return isInviteOnly ? problem : `${problem} You can still create an account without it.`;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+
+    if (!isInvited && policy && !isRegistrationAllowed(policy, email)) {
+      setError(isInviteOnly
+        ? "Registration is by invitation only."
+        : "Registration is not open to this email domain.");
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      await signup({ name, email, password });
+      await signup({ name, email, password, inviteToken: isInvited ? inviteToken : undefined });
       // Redirect to login with a message about email confirmation
       navigate("/login?emailConfirmation=pending");
     } catch (err) {
@@ -53,6 +117,32 @@ const Signup: React.FC = () => {
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
+
+          {isInvited && (
+            <Alert>
+              <MailCheck className="h-4 w-4" />
+              <AlertDescription>
+                You've been invited as <strong>{invitation.role}</strong>
+                {invitation.projectTitle && <> and added to <strong>{invitation.projectTitle}</strong></>}.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {invitationProblem() && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{invitationProblem()}</AlertDescription>
+            </Alert>
+          )}
+
+          {isInviteOnly && !isCheckingInvite && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Registration is by invitation only. Ask an administrator for an invitation link.
+              </AlertDescription>
+            </Alert>
+          )}
           
           <div className="space-y-2">
             <Label htmlFor="name">Full Name</Label>
@@ -74,8 +164,14 @@ const Signup: React.FC = () => {
               onChange={(e) => setEmail(e.target.value)}
               placeholder="your.email@example.com"
               required
+              readOnly={isInvited}
               className="bg-background/50"
             />
+            {allowedDomains && allowedDomains.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Only addresses at {allowedDomains.map(domain => `@${domain}`).join(", ")} can register
+              </p>
+            )}
           </div>
           <div className="space-y-2">
             <Label htmlFor="password">Password</Label>
@@ -98,7 +194,7 @@ const Signup: React.FC = () => {
           <Button 
             type="submit" 
             className="w-full mb-4" 
-            disabled={isSubmitting}
+            disabled={isSubmitting || isCheckingInvite || isInviteOnly}
           >
             {isSubmitting ? (
               <>
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "@/contexts/auth-context";
+import { useCan } from "@/features/permissions/use-can";
+import { useTrash } from "@/features/projects/use-trash";
+import { getProjectPermissions, TrashedProject } from "@/types/project";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Loader2, RotateCcw, ShieldAlert, Trash2 } from "lucide-react";
+
+const Trash: React.FC = () => {
+  const { user } = useAuth();
+  const canViewTrash = useCan("project:restore");
+  const canConfigure = useCan("trash:configure");
+  const { trashedProjects, retentionDays, isLoading, restoreProject, purgeProject, updateRetentionDays } = useTrash();
+  const [retentionInput, setRetentionInput] = useState(String(retentionDays));
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+
+  useEffect(() => {
+    setRetentionInput(String(retentionDays));
+  }, [retentionDays]);
+
+  const handleSaveRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSavingRetention(true);
+    try {
+      await updateRetentionDays(Number(retentionInput));
+    } catch (error) {
+      // The trash hook already reported the error
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  const handleRestore = async (project: TrashedProject) => {
+    try {
+      await restoreProject(project);
+    } catch (error) {
+      // The trash hook already reported the error
+    }
+  };
+
+  const handlePurge = async (project: TrashedProject) => {
+    try {
+      await purgeProject(project);
+    } catch (error) {
+      // The trash hook already reported the error
+    }
+  };
+
+  // Access denied for roles that cannot delete any projects
+  if (!canViewTrash) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <ShieldAlert className="h-16 w-16 text-muted-foreground mx-auto" />
+        <h2 className="text-2xl font-bold">Access Denied</h2>
+        <p className="text-muted-foreground">
+          You don't have permission to view the trash.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Trash</h1>
+        <p className="text-muted-foreground mt-1">
+          Deleted projects are kept for {retentionDays} day{retentionDays === 1 ? "" : "s"} before they are removed for good
+        </p>
+      </div>
+
+      {canConfigure && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Retention</CardTitle>
+            <CardDescription>
+              How long deleted projects stay in the trash before they are permanently deleted
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveRetention} className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="retention-days">Days</Label>
+                <Input
+                  id="retention-days"
+                  type="number"
+                  min={1}
+                  value={retentionInput}
+                  onChange={(e) => setRetentionInput(e.target.value)}
+                  className="w-[120px]"
+                  disabled={isSavingRetention}
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={isSavingRetention || Number(retentionInput) === retentionDays}
+              >
+                {isSavingRetention && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-primary" />
+            <CardTitle>Deleted projects</CardTitle>
+          </div>
+          <CardDescription>
+            Projects you are allowed to restore, most recently deleted first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full mb-2" />
+            ))
+          ) : trashedProjects.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Deleted by</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Permanently deleted</TableHead>
+                  <TableHead className="w-[260px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trashedProjects.map((project) => {
+                  const permissions = getProjectPermissions(project, user);
+
+                  return (
+                    <TableRow key={project.id}>
+                      <TableCell className="font-medium">{project.title}</TableCell>
+                      <TableCell>{project.deletedByName}</TableCell>
+                      <TableCell>{new Date(project.deletedAt).toLocaleString()}</TableCell>
+                      <TableCell>{new Date(project.purgeAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {permissions.canRestore && (
+                          <Button variant="outline" size="sm" onClick={() => handleRestore(project)}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Restore
+                          </Button>
+                        )}
+                        {permissions.canPurge && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm">
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete forever
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Permanently delete project</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  "{project.title}", its members and its history will be deleted. This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handlePurge(project)}>Delete forever</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              The trash is empty. <Link to="/projects" className="underline">Back to projects</Link>
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Trash;
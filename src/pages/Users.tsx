@@ -1,22 +1,98 @@
 
 import React, { useEffect, useState } from "react";
-import { useAuth, getAllUsers, updateUserRole } from "@/contexts/auth-context";
+import { useAuth, getAllUsers, setUserStatus, updateUserRole } from "@/contexts/auth-context";
 import { toast } from "sonner";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { AlertCircle, UserCog, Shield, ShieldAlert } from "lucide-react";
-import { User, UserRole } from "@/types/auth";
+import { AlertCircle, UserCog, Shield, ShieldAlert, MoreHorizontal, Ban, UserX, UserCheck, ArrowRightLeft, Upload, X, Eye } from "lucide-react";
+import { User, UserRole, UserStatus, USER_STATUS_LABELS } from "@/types/auth";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Link, useNavigate } from "react-router-dom";
+import { Role, hasCapability, holdsEveryCapability } from "@/types/role";
+import { useRoles } from "@/features/roles/role-context";
+import { can } from "@/features/permissions/policy";
+import { useCan } from "@/features/permissions/use-can";
+import Can from "@/features/permissions/can";
+import InvitationsPanel from "@/components/users/InvitationsPanel";
+import RegistrationPolicyPanel from "@/components/users/RegistrationPolicyPanel";
+import UserStatusDialog from "@/components/users/UserStatusDialog";
+import UserImportDialog from "@/components/users/UserImportDialog";
+import TemporaryRolesPanel from "@/components/users/TemporaryRolesPanel";
+import ViewAsUserDialog from "@/components/users/ViewAsUserDialog";
+import RoleRequestsPanel from "@/components/role-requests/RoleRequestsPanel";
+import { RoleRequest } from "@/types/role-request";
+import TransferOwnershipDialog from "@/components/projects/TransferOwnershipDialog";
+import { useProjects } from "@/features/projects/project-context";
+import { Project } from "@/types/project";
+import { useUserBulkActions } from "@/features/users/use-user-bulk-actions";
+import { useRoleGrants } from "@/features/users/use-role-grants";
+import { RoleChangeError, RoleChangeErrorCode } from "@/features/users/errors";
+
+const STATUS_VARIANTS: Record<UserStatus, "secondary" | "outline" | "destructive"> = {
+  active: "secondary",
+  suspended: "destructive",
+  deactivated: "outline",
+};
+
+const ROLE_CHANGE_ERROR_TITLES: Record<RoleChangeErrorCode, string> = {
+  not_allowed: "Not allowed to change roles",
+  own_role: "You cannot change your own role",
+  escalation: "Role not granted",
+  outranked: "User not changed",
+  unknown_role: "Unknown role",
+  user_not_found: "User not found",
+  last_admin: "An administrator is required",
+  admin_exists: "Recovery not needed",
+  invalid_recovery_code: "Invalid recovery code",
+  invalid_expiry: "Invalid end time",
+  grant_not_found: "Temporary role not found",
+  already_has_role: "Role already held",
+  request_pending: "Request already pending",
+  request_closed: "Request already handled",
+  read_only: "Read-only while viewing as another user",
+  user_inactive: "User is not active",
+};
+
+// Picks an icon from what the role can do rather than its name
+const RoleIcon: React.FC<{ role?: Role; className?: string }> = ({ role, className }) => {
+  if (hasCapability(role, "users:manage")) {
+    return <Shield className={`${className} text-primary`} />;
+  }
+  if (hasCapability(role, "projects:create")) {
+    return <UserCog className={`${className} text-primary`} />;
+  }
+  return <AlertCircle className={`${className} text-muted-foreground`} />;
+};
 
 const Users: React.FC = () => {
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, startImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const { roles, getRole } = useRoles();
+  const canManageUsers = useCan("user:list");
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
+  const [statusTarget, setStatusTarget] = useState<{ user: User; status: "suspended" | "deactivated" } | null>(null);
+  const { getProjectsByOwner, transferProjectOwnership } = useProjects();
+  const [ownedProjects, setOwnedProjects] = useState<Project[]>([]);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const { changeRoles } = useUserBulkActions();
+  const { grants, isLoading: grantsLoading, grantRole, revokeGrant } = useRoleGrants();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkRole, setBulkRole] = useState("");
+  const [isChangingRoles, setIsChangingRoles] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [viewAsTarget, setViewAsTarget] = useState<User | null>(null);
+  // Remounts the invitations panel so it shows invitations created by an import
+  const [invitationsVersion, setInvitationsVersion] = useState(0);
   
   useEffect(() => {
     const fetchUsers = async () => {
-      if (currentUser?.role !== "Admin") {
+      if (!canManageUsers) {
         setLoading(false);
         return;
       }
@@ -33,14 +109,9 @@ const Users: React.FC = () => {
     };
     
     fetchUsers();
-  }, [currentUser]);
+  }, [currentUser, canManageUsers]);
   
   const handleRoleChange = async (userId: string, newRole: UserRole) => {
-    if (!currentUser || currentUser.role !== "Admin") {
-      toast.error("Only admins can change user roles");
-      return;
-    }
-    
     try {
       const updatedUser = await updateUserRole(userId, newRole, currentUser);
       
@@ -49,7 +120,9 @@ const Users: React.FC = () => {
       
       toast.success(`User role updated to ${newRole}`);
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof RoleChangeError) {
+        toast.error(ROLE_CHANGE_ERROR_TITLES[error.code], { description: error.message });
+      } else if (error instanceof Error) {
         toast.error(error.message);
       } else {
         toast.error("Failed to update user role");
@@ -57,8 +130,84 @@ const Users: React.FC = () => {
     }
   };
   
-  // Access denied for non-admins
-  if (currentUser?.role !== "Admin") {
+  // The database refuses changes that involve capabilities the current user lacks
+  const canChangeRoleOf = (user: User) =>
+    can(currentUser, "user:change-role", user) && holdsEveryCapability(currentUser, getRole(user.role));
+  const canGrant = (role: Role) => holdsEveryCapability(currentUser, role);
+  const grantFor = (user: User) => grants.find(g => g.userId === user.id && new Date(g.expiresAt) > new Date());
+
+  // Starts on the dashboard, which is what the user sees after signing in
+  const handleViewAs = async (user: User, reason: string) => {
+    await startImpersonation(user, reason);
+    navigate("/");
+  };
+
+  // Approving went through change_user_role, so only the local copy is stale
+  const handleRequestApproved = (request: RoleRequest) => {
+    setUsers(prev => prev.map(u => u.id === request.requesterId ? { ...u, role: request.role } : u));
+  };
+
+  // Only users whose role the current user may change can be selected
+  const selectableUsers = users.filter(canChangeRoleOf);
+  const selectedUsers = users.filter(u => selectedIds.includes(u.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  const toggleAllSelected = (checked: boolean) => {
+    setSelectedIds(checked ? selectableUsers.map(u => u.id) : []);
+  };
+
+  const handleBulkRoleChange = async () => {
+    setIsChangingRoles(true);
+    try {
+      const { updated } = await changeRoles(selectedUsers, bulkRole);
+      setUsers(prev => prev.map(u => updated.find(updatedUser => updatedUser.id === u.id) ?? u));
+      setSelectedIds([]);
+      setBulkRole("");
+    } catch (error) {
+      // The bulk actions hook already reported the error
+    } finally {
+      setIsChangingRoles(false);
+    }
+  };
+
+  const handleImported = async () => {
+    setUsers(await getAllUsers());
+    setInvitationsVersion(prev => prev + 1);
+  };
+
+  const handleStatusChange = async (user: User, status: UserStatus, newOwnerId?: string) => {
+    const transferred = await setUserStatus(user, status, currentUser, newOwnerId);
+    setUsers(prev => prev.map(u => u.id === user.id ? { ...u, status } : u));
+
+    const transferNote = transferred > 0
+      ? ` and ${transferred} project${transferred === 1 ? "" : "s"} transferred`
+      : "";
+    toast.success(`${user.name} is now ${USER_STATUS_LABELS[status].toLowerCase()}${transferNote}`);
+  };
+
+  // Lists the user's projects so several can be handed over at once
+  const openTransferDialog = async (user: User) => {
+    setOwnedProjects(await getProjectsByOwner(user.id));
+    setTransferOpen(true);
+  };
+
+  const handleTransfer = async (projects: Project[], newOwnerId: string) => {
+    await transferProjectOwnership(projects, newOwnerId);
+  };
+
+  const handleReactivate = async (user: User) => {
+    try {
+      await handleStatusChange(user, "active");
+    } catch (error) {
+      // setUserStatus already reported the error
+    }
+  };
+
+  // Access denied for roles that cannot manage users
+  if (!canManageUsers) {
     return (
       <div className="text-center py-12 space-y-4">
         <ShieldAlert className="h-16 w-16 text-muted-foreground mx-auto" />
@@ -81,15 +230,48 @@ const Users: React.FC = () => {
       
       <Card>
         <CardHeader>
-          <div className="flex items-center gap-2">
-            <UserCog className="h-5 w-5 text-primary" />
-            <CardTitle>Users</CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <UserCog className="h-5 w-5 text-primary" />
+              <CardTitle>Users</CardTitle>
+            </div>
+            <Can action="user:invite">
+              <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+            </Can>
           </div>
           <CardDescription>
             View and update the roles for all users in the system
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {selectedUsers.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 rounded-lg border p-3">
+              <p className="text-sm font-medium mr-auto">{selectedUsers.length} selected</p>
+              <Select value={bulkRole} onValueChange={setBulkRole} disabled={isChangingRoles}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Change role to" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((role) => (
+                    <SelectItem key={role.name} value={role.name} disabled={!canGrant(role)}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={handleBulkRoleChange} disabled={isChangingRoles || !bulkRole}>
+                Apply
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])} disabled={isChangingRoles}>
+                <X className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            </div>
+          )}
+
           {loading ? (
             Array.from({ length: 3 }).map((_, i) => (
               <Skeleton key={i} className="h-12 w-full mb-2" />
@@ -98,38 +280,117 @@ const Users: React.FC = () => {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      aria-label="Select all users"
+                      checked={
+                        selectableUsers.length > 0 && selectedUsers.length === selectableUsers.length
+                          ? true
+                          : selectedUsers.length > 0 ? "indeterminate" : false
+                      }
+                      onCheckedChange={(checked) => toggleAllSelected(checked === true)}
+                      disabled={selectableUsers.length === 0}
+                    />
+                  </TableHead>
                   <TableHead>Name</TableHead>
                   <TableHead>Role</TableHead>
-                  <TableHead className="w-[150px]">Actions</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[200px]">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {users.map((user) => (
                   <TableRow key={user.id}>
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Select ${user.name}`}
+                        checked={selectedIds.includes(user.id)}
+                        onCheckedChange={(checked) => toggleSelected(user.id, checked === true)}
+                        disabled={!canChangeRoleOf(user)}
+                      />
+                    </TableCell>
                     <TableCell className="font-medium">{user.name}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1.5">
-                        {user.role === "Admin" && <Shield className="h-4 w-4 text-primary" />}
-                        {user.role === "Editor" && <UserCog className="h-4 w-4 text-primary" />}
-                        {user.role === "Viewer" && <AlertCircle className="h-4 w-4 text-muted-foreground" />}
+                        <RoleIcon role={getRole(user.role)} className="h-4 w-4" />
                         <span>{user.role}</span>
                       </div>
+                      {grantFor(user) && (
+                        <p className="text-xs text-muted-foreground">
+                          {grantFor(user).role} until {new Date(grantFor(user).expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <Select
-                        defaultValue={user.role}
-                        onValueChange={(value) => handleRoleChange(user.id, value as UserRole)}
-                        disabled={user.id === currentUser.id} // Can't change own role
-                      >
-                        <SelectTrigger className="w-full">
-                          <SelectValue placeholder="Select role" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Admin">Admin</SelectItem>
-                          <SelectItem value="Editor">Editor</SelectItem>
-                          <SelectItem value="Viewer">Viewer</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <Badge variant={STATUS_VARIANTS[user.status]}>
+                        {USER_STATUS_LABELS[user.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => handleRoleChange(user.id, value as UserRole)}
+                          disabled={!canChangeRoleOf(user)}
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {roles.map((role) => (
+                              <SelectItem key={role.name} value={role.name} disabled={!canGrant(role)}>
+                                {role.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {(can(currentUser, "user:change-status", user) || can(currentUser, "user:impersonate", user)) && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" title="More actions">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {can(currentUser, "user:impersonate", user) && (
+                                <DropdownMenuItem
+                                  onClick={() => setViewAsTarget(user)}
+                                  disabled={user.status !== "active"}
+                                >
+                                  <Eye className="h-4 w-4 mr-2" />
+                                  View as user
+                                </DropdownMenuItem>
+                              )}
+                              {can(currentUser, "user:change-status", user) && (
+                                <>
+                                  <DropdownMenuItem onClick={() => openTransferDialog(user)}>
+                                    <ArrowRightLeft className="h-4 w-4 mr-2" />
+                                    Transfer projects
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  {user.status === "active" ? (
+                                    <>
+                                      <DropdownMenuItem onClick={() => setStatusTarget({ user, status: "suspended" })}>
+                                        <Ban className="h-4 w-4 mr-2" />
+                                        Suspend
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem onClick={() => setStatusTarget({ user, status: "deactivated" })}>
+                                        <UserX className="h-4 w-4 mr-2" />
+                                        Deactivate
+                                      </DropdownMenuItem>
+                                    </>
+                                  ) : (
+                                    <DropdownMenuItem onClick={() => handleReactivate(user)}>
+                                      <UserCheck className="h-4 w-4 mr-2" />
+                                      Reactivate
+                                    </DropdownMenuItem>
+                                  )}
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -143,44 +404,87 @@ const Users: React.FC = () => {
         </CardContent>
       </Card>
       
+      <UserStatusDialog
+        user={statusTarget?.user ?? null}
+        status={statusTarget?.status ?? "suspended"}
+        users={users}
+        onOpenChange={(open) => !open && setStatusTarget(null)}
+        onConfirm={(newOwnerId) => handleStatusChange(statusTarget.user, statusTarget.status, newOwnerId)}
+      />
+      
+      <TransferOwnershipDialog
+        open={transferOpen}
+        onOpenChange={setTransferOpen}
+        projects={ownedProjects}
+        candidates={users.filter(u => u.status === "active")}
+        onConfirm={handleTransfer}
+      />
+      
+      <UserImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        users={users}
+        onImported={handleImported}
+      />
+      
+      <ViewAsUserDialog
+        user={viewAsTarget}
+        onOpenChange={(open) => !open && setViewAsTarget(null)}
+        onConfirm={handleViewAs}
+      />
+      
+      <Can action="user:change-role">
+        <RoleRequestsPanel canGrant={canGrant} onApproved={handleRequestApproved} />
+      </Can>
+      
+      <Can action="user:change-role">
+        <TemporaryRolesPanel
+          grants={grants}
+          isLoading={grantsLoading}
+          users={selectableUsers.filter(u => u.status === "active")}
+          canGrant={canGrant}
+          onGrant={grantRole}
+          onRevoke={revokeGrant}
+        />
+      </Can>
+      
+      <Can action="user:invite">
+        <InvitationsPanel key={invitationsVersion} />
+      </Can>
+      
+      <Can action="registration:manage">
+        <RegistrationPolicyPanel />
+      </Can>
+      
       <Card>
         <CardHeader>
-          <div className="flex items-center gap-2">
-            <Shield className="h-5 w-5 text-primary" />
-            <CardTitle>Role Permissions</CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Shield className="h-5 w-5 text-primary" />
+              <CardTitle>Role Permissions</CardTitle>
+            </div>
+            <Can action="role:manage">
+              <Link to="/roles">
+                <Button variant="outline" size="sm">
+                  Manage Roles
+                </Button>
+              </Link>
+            </Can>
           </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
-            <div className="space-y-2">
-              <h3 className="text-lg font-medium flex items-center">
-                <Shield className="h-4 w-4 mr-2 text-primary" />
-                Admin
-              </h3>
-              <p className="text-muted-foreground text-sm">
-                Full access to all parts of the system. Can manage users, create, edit, and delete projects.
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <h3 className="text-lg font-medium flex items-center">
-                <UserCog className="h-4 w-4 mr-2 text-primary" />
-                Editor
-              </h3>
-              <p className="text-muted-foreground text-sm">
-                Can create, edit all projects, but can only delete their own projects. Cannot manage users.
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <h3 className="text-lg font-medium flex items-center">
-                <AlertCircle className="h-4 w-4 mr-2 text-muted-foreground" />
-                Viewer
-              </h3>
-              <p className="text-muted-foreground text-sm">
-                Read-only access to all projects. Cannot create, edit, or delete projects. Cannot manage users.
-              </p>
-            </div>
+            {roles.map((role) => (
+              <div key={role.name} className="space-y-2">
+                <h3 className="text-lg font-medium flex items-center">
+                  <RoleIcon role={role} className="h-4 w-4 mr-2" />
+                  {role.name}
+                </h3>
+                <p className="text-muted-foreground text-sm">
+                  {role.description || "No description"}
+                </p>
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
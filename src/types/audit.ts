@@ -0,0 +1,121 @@
+import { Json } from "@/integrations/supabase/types";
+
+export type AuditAction =
+  | "user.role_changed"
+  | "user.status_changed"
+  | "user.admin_recovered"
+  | "user.impersonation_started"
+  | "user.impersonation_ended"
+  | "user.temporary_role_granted"
+  | "user.temporary_role_revoked"
+  | "role.created"
+  | "role.updated"
+  | "role.deleted"
+  | "role_request.created"
+  | "role_request.approved"
+  | "role_request.denied"
+  | "project.created"
+  | "project.updated"
+  | "project.deleted"
+  | "project.ownership_transferred"
+  | "project.restored"
+  | "project.purged"
+  | "project.tags_changed"
+  | "project.status_changed"
+  | "trash.retention_changed"
+  | "project_member.added"
+  | "project_member.role_changed"
+  | "project_member.removed"
+  | "organization_member.added"
+  | "organization_member.role_changed"
+  | "organization_member.removed"
+  | "invitation.created"
+  | "invitation.resent"
+  | "invitation.revoked"
+  | "invitation.accepted"
+  | "registration.mode_changed"
+  | "registration.domain_added"
+  | "registration.domain_updated"
+  | "registration.domain_removed"
+  | "tag.created"
+  | "tag.updated"
+  | "tag.merged"
+  | "tag.deleted"
+  | "workflow.transition_saved"
+  | "workflow.transition_removed";
+
+export type AuditTargetType = "user" | "role" | "project" | "project_member" | "organization_member" | "invitation" | "registration" | "trash" | "tag" | "workflow" | "role_request";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "user.role_changed": "User role changed",
+  "user.status_changed": "User status changed",
+  "user.admin_recovered": "Administrator recovered",
+  "user.impersonation_started": "Viewing as user started",
+  "user.impersonation_ended": "Viewing as user ended",
+  "user.temporary_role_granted": "Temporary role granted",
+  "user.temporary_role_revoked": "Temporary role revoked",
+  "role.created": "Role created",
+  "role.updated": "Role updated",
+  "role.deleted": "Role deleted",
+  "role_request.created": "Role requested",
+  "role_request.approved": "Role request approved",
+  "role_request.denied": "Role request denied",
+  "project.created": "Project created",
+  "project.updated": "Project updated",
+  "project.deleted": "Project moved to trash",
+  "project.ownership_transferred": "Project ownership transferred",
+  "project.restored": "Project restored",
+  "project.purged": "Project permanently deleted",
+  "project.tags_changed": "Project tags changed",
+  "project.status_changed": "Project status changed",
+  "trash.retention_changed": "Trash retention changed",
+  "project_member.added": "Project member added",
+  "project_member.role_changed": "Project member role changed",
+  "project_member.removed": "Project member removed",
+  "organization_member.added": "Organization member added",
+  "organization_member.role_changed": "Organization member role changed",
+  "organization_member.removed": "Organization member removed",
+  "invitation.created": "Invitation sent",
+  "invitation.resent": "Invitation resent",
+  "invitation.revoked": "Invitation revoked",
+  "invitation.accepted": "Invitation accepted",
+  "registration.mode_changed": "Registration policy changed",
+  "registration.domain_added": "Registration domain added",
+  "registration.domain_updated": "Registration domain updated",
+  "registration.domain_removed": "Registration domain removed",
+  "tag.created": "Tag created",
+  "tag.updated": "Tag updated",
+  "tag.merged": "Tag merged",
+  "tag.deleted": "Tag deleted",
+  "workflow.transition_saved": "Workflow transition saved",
+  "workflow.transition_removed": "Workflow transition removed",
+};
+
+export interface AuditEvent {
+  id: string;
+  // Null for changes made outside a user session, e.g. by the nightly purge
+  actorId: string | null;
+  actorName: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  // Human readable name of the target at the time of the event
+  targetLabel: string;
+  before: Json | null;
+  after: Json | null;
+  userAgent: string;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  actorId?: string;
+  action?: AuditAction;
+  // Inclusive ISO dates (yyyy-mm-dd)
+  from?: string;
+  to?: string;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
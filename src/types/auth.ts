@@ -1,14 +1,71 @@
 
-export type UserRole = "Admin" | "Editor" | "Viewer";
+import { Capability } from "./role";
+import { ImpersonationSession } from "./impersonation";
+
+// Role names are defined at runtime in the roles table
+export type UserRole = string;
+
+// A role held on a single project or organization, which takes precedence
+// over the global role inside that scope
+export interface RoleGrant {
+  role: UserRole;
+  capabilities: Capability[];
+}
+
+// A global role held until a set time. While it lasts it replaces the
+// user's own role; afterwards the user is back on their own role.
+export interface TemporaryRoleGrant {
+  id: string;
+  userId: string;
+  userName: string;
+  role: UserRole;
+  grantedBy: string | null;
+  grantedByName: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+// Suspended and deactivated users cannot sign in or read any data
+export type UserStatus = "active" | "suspended" | "deactivated";
+
+export const USER_STATUS_LABELS: Record<UserStatus, string> = {
+  active: "Active",
+  suspended: "Suspended",
+  deactivated: "Deactivated",
+};
+
+// Shown when an inactive user tries to sign in or is signed out
+export const getInactiveAccountMessage = (status: UserStatus): string => {
+  return status === "deactivated"
+    ? "Your account has been deactivated"
+    : "Your account has been suspended. Contact an administrator to restore access.";
+};
 
 export interface User {
   id: string;
   email: string;
   name: string;
   role: UserRole;
+  status: UserStatus;
+  // Resolved from the user's effective role in the roles table
+  capabilities: Capability[];
+  // Unexpired temporary grant; only resolved for the signed-in user and the user being viewed as
+  temporaryRole?: TemporaryRoleGrant | null;
+  // Keyed by project id; only resolved for the signed-in user and the user being viewed as
+  projectRoles?: Record<string, RoleGrant>;
+  // Keyed by organization id; only resolved for the signed-in user and the user being viewed as
+  orgRoles?: Record<string, RoleGrant>;
+  // Set while an administrator views the app as this user; every write is refused
+  impersonatedBy?: { id: string; name: string };
   createdAt: string;
 }
 
+// The role the user acts with right now
+export const getEffectiveRole = (user: User): UserRole => {
+  return user.temporaryRole?.role ?? user.role;
+};
+
 export interface AuthState {
   user: User | null;
   token: string | null;
@@ -23,6 +80,8 @@ export interface LoginCredentials {
 
 export interface SignupCredentials extends LoginCredentials {
   name: string;
+  // Token from an invitation link; applied by the database on sign-up
+  inviteToken?: string;
 }
 
 export interface AuthContextType extends AuthState {
@@ -30,4 +89,10 @@ export interface AuthContextType extends AuthState {
   signup: (credentials: SignupCredentials) => Promise<void>;
   logout: () => void;
   updateUser: (user: User) => void;
+  refreshUser: () => Promise<void>;
+  // The signed-in account; differs from user while viewing as someone else
+  realUser: User | null;
+  impersonation: ImpersonationSession | null;
+  startImpersonation: (target: User, reason: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
 }
@@ -0,0 +1,12 @@
+// An administrator viewing the app with another user's permissions. Writes
+// are refused for as long as the session is open.
+export interface ImpersonationSession {
+  id: string;
+  adminId: string;
+  targetId: string;
+  targetName: string;
+  reason: string;
+  startedAt: string;
+  expiresAt: string;
+  endedAt: string | null;
+}
@@ -0,0 +1,50 @@
+import { UserRole } from "@/types/auth";
+
+export type InvitationStatus = "pending" | "accepted" | "expired" | "revoked";
+
+export interface Invitation {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  // Optional membership granted on one project
+  projectId: string | null;
+  projectRole: UserRole | null;
+  projectTitle: string | null;
+  token: string;
+  invitedBy: string;
+  invitedByName: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  status: InvitationStatus;
+}
+
+export interface InvitationInput {
+  email: string;
+  name?: string;
+  role: UserRole;
+  projectId?: string;
+  projectRole?: UserRole;
+}
+
+// What the sign-up page can learn about an invitation from its token
+export interface InvitationPreview {
+  email: string;
+  name: string | null;
+  role: UserRole;
+  projectTitle: string | null;
+  status: InvitationStatus;
+}
+
+export const getInvitationStatus = (invitation: Pick<Invitation, "acceptedAt" | "revokedAt" | "expiresAt">): InvitationStatus => {
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.acceptedAt) return "accepted";
+  if (new Date(invitation.expiresAt) <= new Date()) return "expired";
+  return "pending";
+};
+
+export const getInvitationLink = (token: string): string => {
+  return `${window.location.origin}/signup?invite=${token}`;
+};
@@ -0,0 +1,17 @@
+import { UserRole } from "./auth";
+
+export interface Organization {
+  id: string;
+  name: string;
+  // The creator of an organization owns it and cannot be removed from it
+  ownerId: string;
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  orgId: string;
+  userId: string;
+  name: string;
+  role: UserRole;
+  joinedAt: string;
+}
@@ -0,0 +1,9 @@
+export type PresenceMode = "viewing" | "editing";
+
+// What each client broadcasts about itself on a project's presence channel
+export interface PresenceUser {
+  userId: string;
+  name: string;
+  mode: PresenceMode;
+  onlineAt: string;
+}
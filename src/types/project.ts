@@ -1,48 +1,146 @@
 
 import { User, UserRole } from "./auth";
+import { can } from "@/features/permissions/policy";
+import { ProjectStatus } from "./workflow";
 
 export interface Project {
   id: string;
   title: string;
   content: string;
+  orgId: string;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  // Set while the project is in the trash
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+  // Where the project is in the workflow; see StatusTransition
+  status: ProjectStatus;
 }
 
 export interface ProjectWithAuthor extends Project {
   author: User;
 }
 
+export interface ProjectMember {
+  projectId: string;
+  userId: string;
+  name: string;
+  role: UserRole;
+  addedAt: string;
+}
+
+// A snapshot of a project's title and content, written on every save
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  title: string;
+  content: string;
+  authorId: string | null;
+  authorName: string;
+  createdAt: string;
+}
+
+export type ProjectSortField = "title" | "created" | "updated" | "author";
+
+export type SortDirection = "asc" | "desc";
+
+// One page of the projects list, filtered and sorted by the database
+export interface ProjectQuery {
+  // 1-based
+  page: number;
+  pageSize: number;
+  sort: ProjectSortField;
+  direction: SortDirection;
+  search?: string;
+  authorId?: string;
+  // Inclusive ISO dates (yyyy-mm-dd) matched against the last update
+  from?: string;
+  to?: string;
+  // Projects must carry every one of these tags
+  tagIds?: string[];
+}
+
+export interface ProjectPage {
+  projects: Project[];
+  total: number;
+}
+
+// A full-text match; highlighted parts of the title and snippet are wrapped in [[[ ]]]
+export interface ProjectSearchResult {
+  project: Project;
+  authorName: string;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface ProjectSearchPage {
+  results: ProjectSearchResult[];
+  total: number;
+}
+
+export const DEFAULT_PROJECT_QUERY: ProjectQuery = {
+  page: 1,
+  pageSize: 12,
+  sort: "updated",
+  direction: "desc",
+};
+
+export interface TrashedProject extends Project {
+  deletedAt: string;
+  deletedBy: string;
+  deletedByName: string;
+  // When the nightly job will purge it
+  purgeAt: string;
+}
+
 export interface ProjectPermissions {
   canView: boolean;
   canEdit: boolean;
   canDelete: boolean;
+  canTransfer: boolean;
+  canRestore: boolean;
+  canPurge: boolean;
+  canTag: boolean;
 }
 
-// Optimized version with memoization support
+// Thin wrapper over the policy engine for components that need all the flags
 export const getProjectPermissions = (
   project: Project | null,
   user: User | null
 ): ProjectPermissions => {
   if (!user || !project) {
-    return { canView: false, canEdit: false, canDelete: false };
-  }
-
-  // Admin can do everything
-  if (user.role === "Admin") {
-    return { canView: true, canEdit: true, canDelete: true };
+    return { canView: false, canEdit: false, canDelete: false, canTransfer: false, canRestore: false, canPurge: false, canTag: false };
   }
 
-  // Editor can edit all projects, but can only delete their own
-  if (user.role === "Editor") {
-    return { 
-      canView: true, 
-      canEdit: true, 
-      canDelete: project.createdBy === user.id 
-    };
-  }
+  return {
+    canView: can(user, "project:view", project),
+    canEdit: can(user, "project:update", project),
+    canDelete: can(user, "project:delete", project),
+    canTransfer: can(user, "project:transfer", project),
+    canRestore: can(user, "project:restore", project),
+    canPurge: can(user, "project:purge", project),
+    canTag: can(user, "project:tag", project),
+  };
+};
 
-  // Viewer can only view projects
-  return { canView: true, canEdit: false, canDelete: false };
+// Splits a bulk selection into the projects the user may act on and the rest
+export const partitionByPermission = (
+  projects: Project[],
+  user: User | null,
+  permission: keyof ProjectPermissions
+): { allowed: Project[]; skipped: Project[] } => {
+  const allowed: Project[] = [];
+  const skipped: Project[] = [];
+  projects.forEach(project => {
+    (getProjectPermissions(project, user)[permission] ? allowed : skipped).push(project);
+  });
+  return { allowed, skipped };
 };
+
+// Bulk actions run per project, so some can fail while the rest succeed
+export interface BulkActionResult {
+  succeeded: Project[];
+  failed: { project: Project; error: string }[];
+}
@@ -0,0 +1,63 @@
+import { UserRole } from "@/types/auth";
+
+export type RegistrationMode = "open" | "invite_only" | "domain_allowlist";
+
+export interface RegistrationModeDefinition {
+  id: RegistrationMode;
+  label: string;
+  description: string;
+}
+
+// In the order they are shown in the UI
+export const REGISTRATION_MODES: RegistrationModeDefinition[] = [
+  {
+    id: "open",
+    label: "Open",
+    description: "Anyone can create an account",
+  },
+  {
+    id: "invite_only",
+    label: "Invite only",
+    description: "Only people with an invitation link can create an account",
+  },
+  {
+    id: "domain_allowlist",
+    label: "Allowlisted domains",
+    description: "People with an email address at an allowlisted domain, or an invitation, can create an account",
+  },
+];
+
+export interface RegistrationDomain {
+  // Lower-case, without the @
+  domain: string;
+  // Global role for new users from this domain; Viewer when not set
+  defaultRole: UserRole | null;
+  createdAt: string;
+}
+
+export interface RegistrationSettings {
+  mode: RegistrationMode;
+  domains: RegistrationDomain[];
+  updatedAt: string;
+}
+
+// The part of the policy the sign-up page can see before anyone is signed in
+export interface RegistrationPolicy {
+  mode: RegistrationMode;
+  domains: string[];
+}
+
+export const normalizeDomain = (domain: string): string => {
+  return domain.trim().toLowerCase().replace(/^@/, "");
+};
+
+export const getEmailDomain = (email: string): string => {
+  return normalizeDomain(email.split("@").pop() ?? "");
+};
+
+// Mirrors the check in handle_new_user for people signing up without an invitation
+export const isRegistrationAllowed = (policy: RegistrationPolicy, email: string): boolean => {
+  if (policy.mode === "invite_only") return false;
+  if (policy.mode === "domain_allowlist") return policy.domains.includes(getEmailDomain(email));
+  return true;
+};
@@ -0,0 +1,28 @@
+import { UserRole } from "./auth";
+
+export type RoleRequestStatus = "pending" | "approved" | "denied" | "cancelled";
+
+export const ROLE_REQUEST_STATUS_LABELS: Record<RoleRequestStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  denied: "Denied",
+  cancelled: "Cancelled",
+};
+
+// A user's request for a different global role, decided by a user manager
+export interface RoleRequest {
+  id: string;
+  requesterId: string;
+  requesterName: string;
+  // The requester's role when the request was loaded
+  currentRole: UserRole | null;
+  role: UserRole;
+  justification: string;
+  status: RoleRequestStatus;
+  createdAt: string;
+  decidedBy: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  decisionComment: string | null;
+  decisionSeenAt: string | null;
+}
@@ -0,0 +1,132 @@
+export type Capability =
+  | "projects:view"
+  | "projects:view:any"
+  | "projects:create"
+  | "projects:edit:any"
+  | "projects:edit:own"
+  | "projects:delete:any"
+  | "projects:delete:own"
+  | "members:manage:any"
+  | "members:manage:own"
+  | "organizations:manage"
+  | "users:manage"
+  | "roles:manage"
+  | "audit:view"
+  | "tags:manage"
+  | "projects:approve";
+
+export interface CapabilityDefinition {
+  id: Capability;
+  label: string;
+  description: string;
+}
+
+// Every capability a role can be granted, in the order they are shown in the UI
+export const CAPABILITIES: CapabilityDefinition[] = [
+  {
+    id: "projects:view",
+    label: "View projects",
+    description: "Read projects they have access to",
+  },
+  {
+    id: "projects:view:any",
+    label: "View all projects",
+    description: "See every project, including ones they are not a member of",
+  },
+  {
+    id: "projects:create",
+    label: "Create projects",
+    description: "Add new projects",
+  },
+  {
+    id: "projects:edit:any",
+    label: "Edit any project",
+    description: "Update projects created by anyone",
+  },
+  {
+    id: "projects:edit:own",
+    label: "Edit own projects",
+    description: "Update projects they created",
+  },
+  {
+    id: "projects:delete:any",
+    label: "Delete any project",
+    description: "Remove projects created by anyone",
+  },
+  {
+    id: "projects:delete:own",
+    label: "Delete own projects",
+    description: "Remove projects they created",
+  },
+  {
+    id: "members:manage:any",
+    label: "Manage members of any project",
+    description: "Invite, change and remove members on every project",
+  },
+  {
+    id: "members:manage:own",
+    label: "Manage members of own projects",
+    description: "Invite, change and remove members on projects they created",
+  },
+  {
+    id: "organizations:manage",
+    label: "Manage organization",
+    description: "Rename the organization and manage its members",
+  },
+  {
+    id: "users:manage",
+    label: "Manage users",
+    description: "View all users and change their roles",
+  },
+  {
+    id: "roles:manage",
+    label: "Manage roles",
+    description: "Create, edit and delete roles",
+  },
+  {
+    id: "audit:view",
+    label: "View audit log",
+    description: "Browse and export the audit trail of role changes and project mutations",
+  },
+  {
+    id: "tags:manage",
+    label: "Manage tags",
+    description: "Create, rename, merge and delete the organization's project tags",
+  },
+  {
+    id: "projects:approve",
+    label: "Approve projects",
+    description: "Make the status changes the project workflow reserves for approvers",
+  },
+];
+
+export interface Role {
+  name: string;
+  description: string;
+  capabilities: Capability[];
+  // System roles are seeded by the database and cannot be deleted
+  isSystem: boolean;
+  createdAt: string;
+}
+
+export interface RoleInput {
+  name: string;
+  description: string;
+  capabilities: Capability[];
+}
+
+export const hasCapability = (
+  subject: { capabilities?: Capability[] } | null,
+  capability: Capability
+): boolean => {
+  return !!subject?.capabilities?.includes(capability);
+};
+
+// Mirrors change_user_role: nobody can hand out, or take away, capabilities
+// they do not hold themselves
+export const holdsEveryCapability = (
+  subject: { capabilities?: Capability[] } | null,
+  role: Pick<Role, "capabilities"> | undefined
+): boolean => {
+  return !!role && role.capabilities.every(capability => hasCapability(subject, capability));
+};
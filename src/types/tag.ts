@@ -0,0 +1,39 @@
+export type TagColor = "gray" | "red" | "orange" | "amber" | "green" | "teal" | "blue" | "violet" | "pink";
+
+export interface Tag {
+  id: string;
+  orgId: string;
+  name: string;
+  color: TagColor;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface TagInput {
+  name: string;
+  color: TagColor;
+}
+
+export interface TagColorDefinition {
+  id: TagColor;
+  label: string;
+  // Full class names so Tailwind keeps them in the build
+  className: string;
+}
+
+// In the order they are offered in the UI; the database checks the same list
+export const TAG_COLORS: TagColorDefinition[] = [
+  { id: "gray", label: "Gray", className: "bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-800 dark:text-gray-200" },
+  { id: "red", label: "Red", className: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/40 dark:text-red-300" },
+  { id: "orange", label: "Orange", className: "bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/40 dark:text-orange-300" },
+  { id: "amber", label: "Amber", className: "bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/40 dark:text-amber-300" },
+  { id: "green", label: "Green", className: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/40 dark:text-green-300" },
+  { id: "teal", label: "Teal", className: "bg-teal-100 text-teal-800 border-teal-200 dark:bg-teal-900/40 dark:text-teal-300" },
+  { id: "blue", label: "Blue", className: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/40 dark:text-blue-300" },
+  { id: "violet", label: "Violet", className: "bg-violet-100 text-violet-800 border-violet-200 dark:bg-violet-900/40 dark:text-violet-300" },
+  { id: "pink", label: "Pink", className: "bg-pink-100 text-pink-800 border-pink-200 dark:bg-pink-900/40 dark:text-pink-300" },
+];
+
+export const getTagColorClassName = (color: TagColor): string => {
+  return (TAG_COLORS.find(definition => definition.id === color) ?? TAG_COLORS[0]).className;
+};
@@ -0,0 +1,36 @@
+import { User, UserRole } from "@/types/auth";
+
+// One data row of an import file, numbered as a spreadsheet would show it
+export interface UserImportRow {
+  line: number;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+export type UserImportAction = "invite" | "update" | "unchanged" | "conflict";
+
+export interface UserImportPlanItem {
+  row: UserImportRow;
+  action: UserImportAction;
+  // The account an update applies to
+  user?: User;
+  // Why a conflicting row will not be applied
+  reason?: string;
+}
+
+export interface UserImportResult {
+  invited: number;
+  updated: number;
+  failed: { row: UserImportRow; error: string }[];
+}
+
+export const USER_IMPORT_ACTION_LABELS: Record<UserImportAction, string> = {
+  invite: "Invite",
+  update: "Update role",
+  unchanged: "No change",
+  conflict: "Conflict",
+};
+
+// The header row every import file must start with, in any order
+export const USER_IMPORT_COLUMNS = ["name", "email", "role"] as const;
@@ -0,0 +1,51 @@
+import { Capability } from "./role";
+
+export type ProjectStatus = "draft" | "in_review" | "approved" | "archived";
+
+// In lifecycle order
+export const PROJECT_STATUSES: ProjectStatus[] = ["draft", "in_review", "approved", "archived"];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  archived: "Archived",
+};
+
+// Full class names so Tailwind keeps them in the build
+export const PROJECT_STATUS_CLASS_NAMES: Record<ProjectStatus, string> = {
+  draft: "bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-800 dark:text-gray-200",
+  in_review: "bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/40 dark:text-amber-300",
+  approved: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/40 dark:text-green-300",
+  archived: "bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-400",
+};
+
+// One edge of the configurable workflow graph
+export interface StatusTransition {
+  fromStatus: ProjectStatus;
+  toStatus: ProjectStatus;
+  // Shown on the button that makes the move, e.g. "Approve"
+  label: string;
+  // Required on top of being able to edit the project; null lets every editor make the move
+  capability: Capability | null;
+  updatedAt: string;
+}
+
+export interface StatusTransitionInput {
+  fromStatus: ProjectStatus;
+  toStatus: ProjectStatus;
+  label: string;
+  capability: Capability | null;
+}
+
+// A recorded move of one project from one status to another
+export interface ProjectStatusChange {
+  id: string;
+  projectId: string;
+  fromStatus: ProjectStatus;
+  toStatus: ProjectStatus;
+  comment: string | null;
+  changedBy: string;
+  changedByName: string;
+  changedAt: string;
+}